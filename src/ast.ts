@@ -0,0 +1,156 @@
+import { LogicalOperator, OperatorType } from './operators';
+import { FilterParams, FilterValue, replacePlaceholders } from './values';
+
+/**
+ * A single `field<operator>value` comparison.
+ */
+export interface ConditionNode {
+  type: 'condition';
+  field: string;
+  operator: OperatorType;
+  value: FilterValue;
+}
+
+/**
+ * A raw filter fragment added through `customFilter`, with the values bound to its placeholders.
+ */
+export interface RawNode {
+  type: 'raw';
+  filter: string;
+  params: FilterParams;
+}
+
+/**
+ * An explicitly parenthesized sub-expression.
+ */
+export interface GroupNode {
+  type: 'group';
+  child: FilterNode;
+}
+
+/**
+ * Two or more expressions joined by the same logical operator.
+ * `&&` binds tighter than `||`, so an `||` node nested directly inside an
+ * `&&` node is rendered in parentheses.
+ */
+export interface LogicalNode {
+  type: 'logical';
+  operator: LogicalOperator;
+  children: FilterNode[];
+}
+
+export type FilterNode = ConditionNode | RawNode | GroupNode | LogicalNode;
+
+/**
+ * An expression together with the logical operator joining it to the previous one.
+ */
+export interface JoinedNode {
+  join: LogicalOperator;
+  node: FilterNode;
+}
+
+/**
+ * Encodes a value into the filter string, either as a literal or as a placeholder.
+ */
+export type ValueEncoder = (value: unknown) => string;
+
+/**
+ * Folds a sequence of joined expressions into a tree, giving `&&` precedence over `||`.
+ * The join of the first expression is ignored.
+ *
+ * @param {JoinedNode[]} entries - The expressions in the order they were added.
+ * @returns {FilterNode | null} The combined expression, or `null` when there are no entries.
+ */
+export function combineNodes(entries: JoinedNode[]): FilterNode | null {
+  if (!entries.length) return null;
+
+  const terms: FilterNode[][] = [];
+  entries.forEach(({ join, node }, index) => {
+    if (index === 0 || join === '||') terms.push([node]);
+    else terms[terms.length - 1].push(node);
+  });
+
+  const children = terms.map((nodes) =>
+    nodes.length === 1 ? nodes[0] : and(...nodes)
+  );
+  return children.length === 1 ? children[0] : or(...children);
+}
+
+/**
+ * Creates an `&&` node from the given expressions.
+ */
+export function and(...children: FilterNode[]): LogicalNode {
+  return { type: 'logical', operator: '&&', children };
+}
+
+/**
+ * Creates an `||` node from the given expressions.
+ */
+export function or(...children: FilterNode[]): LogicalNode {
+  return { type: 'logical', operator: '||', children };
+}
+
+/**
+ * Checks whether a raw fragment contains an `||` outside quotes and parentheses,
+ * in which case it must be parenthesized when joined with `&&`.
+ */
+function hasTopLevelOr(filter: string): boolean {
+  let depth = 0;
+  let quote = '';
+  for (let i = 0; i < filter.length; i++) {
+    const char = filter[i];
+    if (quote) {
+      if (char === quote && filter[i - 1] !== '\\') quote = '';
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+    } else if (depth === 0 && char === '|' && filter[i + 1] === '|') {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Checks whether a child of an `&&` node needs parentheses to keep its meaning.
+ */
+function needsParentheses(node: FilterNode): boolean {
+  if (node.type === 'logical') return node.operator === '||';
+  if (node.type === 'raw') return hasTopLevelOr(node.filter);
+  return false;
+}
+
+/**
+ * Renders an expression tree into a PocketBase filter string.
+ *
+ * @param {FilterNode | null} node - The root of the expression tree.
+ * @param {ValueEncoder} encode - Encodes each value as a literal or a placeholder.
+ * @returns {string} The filter string, or an empty string for an empty tree.
+ */
+export function renderNode(node: FilterNode | null, encode: ValueEncoder): string {
+  if (!node) return '';
+
+  switch (node.type) {
+    case 'condition':
+      return `${node.field}${node.operator}${encode(node.value)}`;
+    case 'raw': {
+      const encoded = new Map<string, string>();
+      return replacePlaceholders(node.filter, node.params, (name, value) => {
+        if (!encoded.has(name)) encoded.set(name, encode(value));
+        return encoded.get(name) as string;
+      });
+    }
+    case 'group':
+      return `(${renderNode(node.child, encode)})`;
+    case 'logical':
+      return node.children
+        .map((child) => {
+          const rendered = renderNode(child, encode);
+          return node.operator === '&&' && needsParentheses(child) ? `(${rendered})` : rendered;
+        })
+        .join(` ${node.operator} `);
+  }
+}
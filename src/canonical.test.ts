@@ -0,0 +1,77 @@
+import PocketbaseQuery, { canonicalize, normalize } from '.';
+
+interface Post {
+  title: string;
+  status: string;
+  author: string;
+  views: number;
+  tags: string[];
+}
+
+const canonical = (filter: string) => canonicalize(filter).filter;
+
+describe('Canonical Form', () => {
+  test('should sort the operands of commutative operators', () => {
+    const a = PocketbaseQuery.create<Post>()
+      .equal('status', 'published')
+      .and()
+      .equal('author', 'u1');
+    const b = PocketbaseQuery.create<Post>()
+      .equal('author', 'u1')
+      .and()
+      .equal('status', 'published');
+
+    expect(a.canonicalize()).toEqual(b.canonicalize());
+    expect(a.canonicalize().filter).toBe('author="u1" && status="published"');
+    expect(canonical('b=2 || a=1 && (d=4 || c=3)')).toBe('a=1 && (c=3 || d=4) || b=2');
+  });
+
+  test('should flatten brackets and nested runs of the same operator', () => {
+    expect(canonical('((a=1)) && (b=2 && (c=3))')).toBe('a=1 && b=2 && c=3');
+    expect(canonical('(a=1 || b=2) || c=3')).toBe('a=1 || b=2 || c=3');
+    expect(canonical('(a=1 || b=2) && c=3')).toBe('(a=1 || b=2) && c=3');
+  });
+
+  test('should remove duplicate expressions', () => {
+    expect(canonical('a=1 && b=2 && a=1')).toBe('a=1 && b=2');
+    expect(canonical('(a=1 || b=2) && (b=2 || a=1)')).toBe('a=1 || b=2');
+  });
+
+  test('should collapse contradictions', () => {
+    expect(canonical('status="a" && views>1 && status!="a"')).toBe('status!="a" && status="a"');
+    expect(canonical('a>1 && a<=1 || b=2')).toBe('b=2');
+    expect(canonical('(a>1 && a<=1) && b=2')).toBe('a<=1 && a>1');
+    // both sides match a multiple field holding "x" among other values
+    expect(canonical('tags?="x" && tags?!="x"')).toBe('tags?!="x" && tags?="x"');
+  });
+
+  test('should collapse tautologies', () => {
+    expect(canonical('(tags?="x" || tags?!="x") && a=1')).toBe('a=1');
+    expect(canonical('tags?="x" || tags?!="x" || a=1')).toBe('');
+    // neither side matches a multiple field holding "x" among other values
+    expect(canonical('tags="x" || tags!="x"')).toBe('tags!="x" || tags="x"');
+  });
+
+  test('should normalize custom filters and keep the ones that cannot be parsed', () => {
+    const query = PocketbaseQuery.create<Post>()
+      .customFilter('views > {:min} && (status = "a")', { min: 10 })
+      .and()
+      .equal('status', 'a');
+
+    expect(query.canonicalize().filter).toBe('status="a" && views>10');
+    expect(normalize({ type: 'raw', filter: 'a = = 1', params: {} })).toEqual({
+      type: 'raw',
+      filter: 'a = = 1',
+      params: {},
+    });
+  });
+
+  test('should hash the canonical filter', () => {
+    const { hash } = canonicalize('a=1 && b=2');
+
+    expect(hash).toMatch(/^[0-9a-f]{8}$/);
+    expect(canonicalize('b=2 && (a=1)').hash).toBe(hash);
+    expect(canonicalize('a=1 || b=2').hash).not.toBe(hash);
+    expect(canonicalize('')).toEqual({ filter: '', hash: '811c9dc5' });
+  });
+});
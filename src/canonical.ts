@@ -0,0 +1,176 @@
+import { ConditionNode, FilterNode, LogicalNode, renderNode } from './ast';
+import { EvaluableFilter, toFilterNode } from './evaluate';
+import { COMPLEMENTS } from './negate';
+import { LogicalOperator, OperatorType } from './operators';
+import { parseFilter } from './parser';
+import { serializeValue } from './values';
+
+/**
+ * The canonical form of a filter, e.g. to use it as a cache key.
+ */
+export interface CanonicalFilter {
+  /** The simplified filter, identical for logically identical filters built in a different order. */
+  filter: string;
+  /** A short hash of the canonical filter: its 32-bit FNV-1a hash, as 8 hex digits. */
+  hash: string;
+}
+
+/**
+ * A simplified expression, along with its value when it does not depend on the record.
+ */
+interface Simplified {
+  /** The expression, or `null` when it matches every record. */
+  node: FilterNode | null;
+  /** `true` when the expression matches every record, `false` when it matches none. */
+  constant?: boolean;
+}
+
+/**
+ * Some item of every record equals a value or differs from it, since PocketBase's
+ * left join gives an empty multiple field one empty item.
+ */
+const ANY_EQUALITY: Partial<Record<OperatorType, OperatorType>> = { '?=': '?!=', '?!=': '?=' };
+
+const FNV_OFFSET = 0x811c9dc5;
+const FNV_PRIME = 0x01000193;
+
+/**
+ * Simplifies a filter into a canonical expression tree:
+ * - brackets are dropped, the tree keeping the precedence of the expressions;
+ * - nested runs of the same logical operator are flattened;
+ * - duplicate expressions are removed, and the operands of `&&` and `||` sorted;
+ * - a condition joined with `&&` to its complement, such as `a="x" && a!="x"`, never
+ *   matches, so the `&&` is reduced to that pair and dropped from a `||`;
+ * - `a?="x" || a?!="x"` matches every record, so the `||` is dropped from a `&&`.
+ *
+ * Only rewrites that hold for every field are applied: `a="x" || a!="x"` is kept,
+ * since neither side matches a multiple field holding `"x"` among other values.
+ *
+ * @example
+ * renderNode(normalize('(b=2 && a=1) && (a=1)'), serializeValue); // a=1 && b=2
+ *
+ * @param {EvaluableFilter} filter - The filter to simplify.
+ * @returns {FilterNode | null} The simplified tree, or `null` when it matches every record.
+ * @throws {FilterParseError} When the filter is not a valid expression.
+ */
+export function normalize(filter: EvaluableFilter): FilterNode | null {
+  const node = toFilterNode(filter);
+  return node ? simplify(node).node : null;
+}
+
+/**
+ * Computes the canonical form of a filter, so that logically identical filters
+ * built in a different order share the same string and hash. See {@link normalize}.
+ *
+ * @example
+ * canonicalize('b=2 && a=1'); // { filter: "a=1 && b=2", hash: "..." }
+ * canonicalize('(a=1) && b=2'); // same result
+ *
+ * @param {EvaluableFilter} filter - The filter to canonicalize.
+ * @returns {CanonicalFilter} The canonical filter and its hash.
+ * @throws {FilterParseError} When the filter is not a valid expression.
+ */
+export function canonicalize(filter: EvaluableFilter): CanonicalFilter {
+  const canonical = render(normalize(filter));
+  return { filter: canonical, hash: hash(canonical) };
+}
+
+function simplify(node: FilterNode): Simplified {
+  switch (node.type) {
+    case 'condition':
+      return { node };
+    case 'raw': {
+      let parsed: FilterNode | null;
+      try {
+        parsed = parseFilter(render(node));
+      } catch {
+        // fragments that cannot be parsed are kept as they are
+        return { node };
+      }
+      return parsed ? simplify(parsed) : { node: null, constant: true };
+    }
+    case 'group':
+      return simplify(node.child);
+    case 'logical':
+      return simplifyLogical(node);
+  }
+}
+
+/**
+ * Simplifies the operands of `&&` or `||`, then flattens, deduplicates and sorts them.
+ */
+function simplifyLogical({ operator, children }: LogicalNode): Simplified {
+  const operands = children.map(simplify);
+  // false absorbs `&&` and true absorbs `||`; the other constant is neutral
+  const absorbing = operator === '&&' ? false : true;
+  const absorbed = sortByKey(operands.filter((operand) => operand.constant === absorbing));
+  if (absorbed.length) return absorbed[0];
+
+  const nodes = operands
+    .filter((operand) => operand.constant === undefined)
+    .flatMap(({ node }) =>
+      node?.type === 'logical' && node.operator === operator ? node.children : node ? [node] : []
+    );
+  const unique = new Map(nodes.map((child) => [render(child), child]));
+  const sorted = [...unique.keys()].sort().map((key) => unique.get(key) as FilterNode);
+
+  if (!sorted.length) {
+    // every operand was neutral: `&&` of true-s, or `||` of false-s
+    return operator === '&&' ? { node: null, constant: true } : sortByKey(operands)[0];
+  }
+  if (operator === '&&') {
+    const contradiction = findComplements(sorted, COMPLEMENTS);
+    if (contradiction) return { node: logical('&&', contradiction), constant: false };
+  } else if (findComplements(sorted, ANY_EQUALITY)) {
+    return { node: null, constant: true };
+  }
+  return { node: sorted.length > 1 ? logical(operator, sorted) : sorted[0] };
+}
+
+/**
+ * Finds two conditions comparing the same field and value with paired operators.
+ */
+function findComplements(
+  nodes: FilterNode[],
+  pairs: Partial<Record<OperatorType, OperatorType>>
+): [ConditionNode, ConditionNode] | undefined {
+  const conditions = nodes.filter(
+    (node): node is ConditionNode => node.type === 'condition' && node.operator in pairs
+  );
+  for (const condition of conditions) {
+    const complement = conditions.find(
+      (other) =>
+        other.field === condition.field &&
+        other.operator === pairs[condition.operator] &&
+        serializeValue(other.value) === serializeValue(condition.value)
+    );
+    if (complement) return [condition, complement];
+  }
+  return undefined;
+}
+
+function sortByKey(operands: Simplified[]): Simplified[] {
+  return [...operands].sort((a, b) => {
+    const [x, y] = [render(a.node), render(b.node)];
+    return x === y ? 0 : x < y ? -1 : 1;
+  });
+}
+
+function logical(operator: LogicalOperator, children: FilterNode[]): LogicalNode {
+  return { type: 'logical', operator, children };
+}
+
+function render(node: FilterNode | null) {
+  return renderNode(node, serializeValue);
+}
+
+/**
+ * Computes the 32-bit FNV-1a hash of the UTF-8 bytes of a string.
+ */
+function hash(value: string): string {
+  let result = FNV_OFFSET;
+  for (const byte of new TextEncoder().encode(value)) {
+    result = Math.imul(result ^ byte, FNV_PRIME);
+  }
+  return (result >>> 0).toString(16).padStart(8, '0');
+}
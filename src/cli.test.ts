@@ -0,0 +1,77 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { main } from './cli';
+
+const schema = [
+  {
+    id: 'pbc_posts',
+    name: 'posts',
+    type: 'base',
+    fields: [{ name: 'title', type: 'text' }],
+  },
+];
+
+describe('CLI', () => {
+  let dir: string;
+  let input: string;
+  let stdout: jest.SpyInstance;
+  let stderr: jest.SpyInstance;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'pocketbase-query-'));
+    input = join(dir, 'pb_schema.json');
+    writeFileSync(input, JSON.stringify(schema));
+    stdout = jest.spyOn(process.stdout, 'write').mockImplementation(() => true);
+    stderr = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('should print the generated types', () => {
+    expect(main(['types', input])).toBe(0);
+    expect(stdout.mock.calls[0][0]).toContain('export interface PostsRecord {');
+  });
+
+  test('should write the generated types to a file with a suffix', () => {
+    const out = join(dir, 'pocketbase.d.ts');
+
+    expect(main(['types', input, '--suffix', 'Row', '-o', out])).toBe(0);
+    expect(readFileSync(out, 'utf8')).toContain('export interface PostsRow {');
+    expect(stdout).not.toHaveBeenCalled();
+  });
+
+  test('should reject options without a value', () => {
+    expect(main(['types', input, '--out'])).toBe(1);
+    expect(main(['types', input, '--suffix', '--out', 'types.ts'])).toBe(1);
+    expect(stderr.mock.calls[0][0]).toMatch(/^Missing value for --out/);
+    expect(stderr.mock.calls[1][0]).toMatch(/^Missing value for --suffix/);
+    expect(stdout).not.toHaveBeenCalled();
+  });
+
+  test('should reject unknown commands and arguments', () => {
+    expect(main([])).toBe(1);
+    expect(main(['schema', input])).toBe(1);
+    expect(main(['types'])).toBe(1);
+    expect(main(['types', input, '--watch'])).toBe(1);
+    expect(stderr.mock.calls[3][0]).toMatch(/^Unknown argument: --watch/);
+  });
+
+  test('should report files that cannot be read or parsed', () => {
+    writeFileSync(input, '{');
+
+    expect(main(['types', join(dir, 'missing.json')])).toBe(1);
+    expect(main(['types', input])).toBe(1);
+    expect(stdout).not.toHaveBeenCalled();
+  });
+
+  test('should print the usage with --help', () => {
+    const log = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    expect(main(['--help'])).toBe(0);
+    expect(log.mock.calls[0][0]).toMatch(/^Usage: pocketbase-query types/);
+  });
+});
@@ -0,0 +1,64 @@
+import { readFileSync, writeFileSync } from 'node:fs';
+import { generateTypes } from './codegen';
+
+const USAGE = `Usage: pocketbase-query types <pb_schema.json> [--out <file>] [--suffix <suffix>]
+
+Generates TypeScript record interfaces from the collections exported by PocketBase.
+
+Options:
+  --out, -o   Writes the interfaces to a file instead of the standard output.
+  --suffix    Appended to the collection names to name the interfaces, "Record" by default.`;
+
+const OPTIONS = ['--out', '-o', '--suffix'];
+
+/**
+ * Runs the command line with its arguments, and returns the exit code.
+ *
+ * @param {string[]} args - The arguments, without the node executable and the script.
+ * @returns {number} The exit code: `0` on success, `1` for invalid arguments or a failed generation.
+ */
+export function main(args: string[]): number {
+  const [command, ...rest] = args;
+  if (command === '--help' || command === '-h') {
+    console.log(USAGE);
+    return 0;
+  }
+  if (command !== 'types') {
+    console.error(USAGE);
+    return 1;
+  }
+
+  let input: string | undefined;
+  let out: string | undefined;
+  let suffix: string | undefined;
+  for (let index = 0; index < rest.length; index++) {
+    const arg = rest[index];
+    if (OPTIONS.includes(arg)) {
+      const value = rest[++index];
+      if (value === undefined || value.startsWith('-')) {
+        console.error(`Missing value for ${arg}\n\n${USAGE}`);
+        return 1;
+      }
+      if (arg === '--suffix') suffix = value;
+      else out = value;
+    } else if (!arg.startsWith('-') && input === undefined) input = arg;
+    else {
+      console.error(`Unknown argument: ${arg}\n\n${USAGE}`);
+      return 1;
+    }
+  }
+  if (!input) {
+    console.error(USAGE);
+    return 1;
+  }
+
+  try {
+    const source = generateTypes(JSON.parse(readFileSync(input, 'utf8')), { suffix });
+    if (out) writeFileSync(out, source);
+    else process.stdout.write(source);
+    return 0;
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    return 1;
+  }
+}
@@ -0,0 +1,174 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import * as ts from 'typescript';
+import { generateTypes, PocketbaseQueryError } from '.';
+
+const schema = [
+  {
+    id: '_pb_users_auth_',
+    name: 'users',
+    type: 'auth',
+    fields: [
+      { name: 'id', type: 'text' },
+      { name: 'password', type: 'password' },
+      { name: 'email', type: 'email' },
+      { name: 'name', type: 'text' },
+      { name: 'avatar', type: 'file', maxSelect: 1 },
+    ],
+  },
+  {
+    id: 'pbc_posts',
+    name: 'posts',
+    type: 'base',
+    fields: [
+      { name: 'id', type: 'text' },
+      { name: 'title', type: 'text' },
+      { name: 'views', type: 'number' },
+      { name: 'featured', type: 'bool' },
+      { name: 'published', type: 'date' },
+      { name: 'status', type: 'select', maxSelect: 1, values: ['draft', 'published'] },
+      { name: 'labels', type: 'select', maxSelect: 3, values: ['news', 'tech'] },
+      { name: 'author', type: 'relation', maxSelect: 1, collectionId: '_pb_users_auth_' },
+      { name: 'editors', type: 'relation', maxSelect: 5, collectionId: '_pb_users_auth_' },
+      { name: 'images', type: 'file', maxSelect: 10 },
+      { name: 'meta', type: 'json' },
+      { name: 'created', type: 'autodate' },
+    ],
+  },
+];
+
+describe('generateTypes', () => {
+  test('should generate an interface per collection with typed fields', () => {
+    const source = generateTypes(schema);
+
+    expect(source).toContain('export interface PostsRecord {');
+    expect(source).toContain('  title: string;');
+    expect(source).toContain('  views: number;');
+    expect(source).toContain('  featured: boolean;');
+    expect(source).toContain('  status: "draft" | "published";');
+    expect(source).toContain('  labels: ("news" | "tech")[];');
+    expect(source).toContain('  images: string[];');
+    expect(source).toContain('  meta: unknown;');
+    expect(source).toContain(
+      '  /** A datetime, formatted as `YYYY-MM-DD HH:MM:SS.sssZ`. */\n  published: string;'
+    );
+    expect(source).not.toContain('password');
+  });
+
+  test('should type relations and back-relations under expand', () => {
+    const source = generateTypes(schema);
+
+    expect(source).toContain(
+      '  /** The id of the related `users` record. */\n  author: string;\n' +
+        '  /** The ids of the related `users` records. */\n  editors: string[];'
+    );
+    expect(source).toContain(
+      '  expand?: {\n    author?: UsersRecord;\n    editors?: UsersRecord[];\n  };'
+    );
+    expect(source).toContain(
+      '  expand?: {\n    posts_via_author?: PostsRecord[];\n    posts_via_editors?: PostsRecord[];\n  };'
+    );
+  });
+
+  test('should map collection names to their records', () => {
+    expect(generateTypes(schema, { suffix: '' })).toContain(
+      'export interface Collections {\n  users: Users;\n  posts: Posts;\n}'
+    );
+  });
+
+  test('should support the schema of earlier PocketBase versions', () => {
+    const source = generateTypes([
+      { id: 'u', name: 'users', type: 'auth', schema: [] },
+      {
+        id: 'p',
+        name: 'blog_posts',
+        type: 'base',
+        schema: [
+          { name: 'tags', type: 'relation', options: { collectionId: 'u', maxSelect: null } },
+          { name: 'kind', type: 'select', options: { maxSelect: 1, values: ['a', 'b'] } },
+        ],
+      },
+    ]);
+
+    expect(source).toContain('export interface UsersRecord {\n  id: string;');
+    expect(source).toContain('  verified: boolean;');
+    expect(source).toContain('export interface BlogPostsRecord {');
+    expect(source).toContain('  tags: string[];');
+    expect(source).toContain('  kind: "a" | "b";');
+    expect(source).toContain('    blog_posts_via_tags?: BlogPostsRecord[];');
+  });
+
+  test('should type builder calls through relations and back-relations', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'pocketbase-query-'));
+    const source = generateTypes([
+      ...schema,
+      {
+        id: 'pbc_teams',
+        name: 'teams',
+        type: 'base',
+        fields: [
+          { name: 'name', type: 'text' },
+          { name: 'lead', type: 'relation', maxSelect: 1, collectionId: '_pb_users_auth_' },
+          { name: 'posts', type: 'relation', maxSelect: 9, collectionId: 'pbc_posts' },
+        ],
+      },
+      {
+        id: 'pbc_comments',
+        name: 'comments',
+        type: 'base',
+        fields: [
+          { name: 'text', type: 'text' },
+          { name: 'post', type: 'relation', maxSelect: 1, collectionId: 'pbc_posts' },
+          { name: 'author', type: 'relation', maxSelect: 1, collectionId: '_pb_users_auth_' },
+        ],
+      },
+    ]);
+    const usage = `
+      import PocketbaseQuery from ${JSON.stringify(join(__dirname, 'index'))};
+      import { PostsRecord } from './pocketbase';
+
+      PocketbaseQuery.create<PostsRecord>()
+        .equal('title', 'x')
+        .and()
+        .equal('status', 'draft')
+        .and()
+        .equal('author.teams_via_lead.posts.author.name', 'x')
+        .and()
+        .anyLike('comments_via_post.author.name', 'ada')
+        .and()
+        .anyEqual('labels', 'news')
+        .build();
+
+      // @ts-expect-error status only accepts its select values
+      PocketbaseQuery.create<PostsRecord>().equal('status', 'archived');
+      // @ts-expect-error comments have no title
+      PocketbaseQuery.create<PostsRecord>().equal('comments_via_post.title', 'x');
+    `;
+
+    try {
+      writeFileSync(join(dir, 'pocketbase.ts'), source);
+      writeFileSync(join(dir, 'usage.ts'), usage);
+      const program = ts.createProgram([join(dir, 'usage.ts')], {
+        strict: true,
+        noEmit: true,
+        skipLibCheck: true,
+        target: ts.ScriptTarget.ES2020,
+        module: ts.ModuleKind.ESNext,
+        moduleResolution: ts.ModuleResolutionKind.Bundler,
+      });
+      const diagnostics = ts
+        .getPreEmitDiagnostics(program)
+        .map((diagnostic) => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+
+      expect(diagnostics).toEqual([]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('should reject files that are not a schema export', () => {
+    expect(() => generateTypes({ name: 'posts' })).toThrow(PocketbaseQueryError);
+    expect(() => generateTypes([{ name: 'posts' }])).toThrow('Invalid schema');
+  });
+});
@@ -0,0 +1,180 @@
+import {
+  fieldsOf,
+  indexCollections,
+  isMultiple,
+  parseSchema,
+  relationTarget,
+  SchemaCollection,
+  SchemaField,
+} from './schema';
+
+export interface GenerateTypesOptions {
+  /**
+   * Appended to the PascalCase collection name to name its interface, `Record` by default.
+   */
+  suffix?: string;
+}
+
+interface Property {
+  name: string;
+  type: string;
+  optional?: boolean;
+  comment?: string;
+}
+
+const SCALAR_TYPES: Record<string, string> = {
+  text: 'string',
+  email: 'string',
+  url: 'string',
+  editor: 'string',
+  number: 'number',
+  bool: 'boolean',
+  date: 'string',
+  autodate: 'string',
+  json: 'unknown',
+  geoPoint: '{ lon: number; lat: number }',
+};
+
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * Generates TypeScript record interfaces from the collections exported by PocketBase,
+ * to type `PocketbaseQuery<T>` and the SDK with the actual schema.
+ *
+ * Every collection becomes an interface: select fields are typed as unions of their
+ * values, multiple select, relation and file fields as arrays, and relations and
+ * back-relations are listed under `expand`, so relation paths are typed as well.
+ * A `Collections` interface maps collection names to their records.
+ *
+ * @example
+ * generateTypes(JSON.parse(readFileSync("pb_schema.json", "utf8")));
+ * // export interface PostsRecord {
+ * //   id: string;
+ * //   status: "draft" | "published";
+ * //   author: string;
+ * //   expand?: { author?: UsersRecord; ... };
+ * // }
+ *
+ * @param {unknown} schema - The parsed contents of `pb_schema.json`.
+ * @param {GenerateTypesOptions} options - How interfaces are named.
+ * @returns {string} The source of a TypeScript module.
+ * @throws {PocketbaseQueryError} When the schema is not an array of collections.
+ */
+export function generateTypes(schema: unknown, options: GenerateTypesOptions = {}): string {
+  const collections = parseSchema(schema);
+  const suffix = options.suffix ?? 'Record';
+  const index = indexCollections(collections);
+  const nameOf = (collection: SchemaCollection) => `${pascalCase(collection.name)}${suffix}`;
+  const targetOf = (field: SchemaField) => relationTarget(field, index);
+
+  const relations = new Map<string, Property[]>();
+  const addRelation = (collection: SchemaCollection, property: Property) => {
+    relations.set(collection.name, [...(relations.get(collection.name) ?? []), property]);
+  };
+  collections.forEach((collection) => {
+    fieldsOf(collection)
+      .filter((field) => field.type === 'relation')
+      .forEach((field) => {
+        const target = targetOf(field);
+        if (!target) return;
+        addRelation(collection, {
+          name: field.name,
+          type: isMultiple(field) ? `${nameOf(target)}[]` : nameOf(target),
+          optional: true,
+        });
+        addRelation(target, {
+          name: `${collection.name}_via_${field.name}`,
+          type: `${nameOf(collection)}[]`,
+          optional: true,
+        });
+      });
+  });
+
+  const interfaces = collections.map((collection) => {
+    const properties: Property[] = fieldsOf(collection)
+      .filter((field) => field.type !== 'password')
+      .map((field) => ({
+        name: field.name,
+        type: fieldType(field),
+        comment: fieldComment(field, targetOf(field)),
+      }));
+
+    const expand = relations.get(collection.name) ?? [];
+    if (expand.length) {
+      properties.push({
+        name: 'expand',
+        type: `{\n${expand.map((property) => `    ${renderProperty(property)}`).join('\n')}\n  }`,
+        optional: true,
+      });
+    }
+
+    const body = properties.map((property) => renderProperty(property, '  ')).join('\n');
+    return `export interface ${nameOf(collection)} {\n${body}\n}`;
+  });
+
+  const map = collections
+    .map((collection) => `  ${propertyName(collection.name)}: ${nameOf(collection)};`)
+    .join('\n');
+
+  return [
+    '// Generated from the PocketBase schema, do not edit by hand.',
+    ...interfaces,
+    `export interface Collections {\n${map}\n}`,
+  ]
+    .join('\n\n')
+    .concat('\n');
+}
+
+function fieldType(field: SchemaField): string {
+  let type = SCALAR_TYPES[field.type];
+  if (field.type === 'select') {
+    const values = field.values ?? field.options?.values ?? [];
+    type = values.length ? values.map((value) => JSON.stringify(value)).join(' | ') : 'string';
+  } else if (field.type === 'relation' || field.type === 'file') {
+    type = 'string';
+  }
+
+  if (!type) return 'unknown';
+  if (!isMultiple(field) || !['select', 'relation', 'file'].includes(field.type)) return type;
+  return type.includes(' | ') ? `(${type})[]` : `${type}[]`;
+}
+
+/**
+ * Documents the field kinds that share a TypeScript type with others, and the targets of relations.
+ */
+function fieldComment(field: SchemaField, target?: SchemaCollection): string | undefined {
+  switch (field.type) {
+    case 'date':
+    case 'autodate':
+      return 'A datetime, formatted as `YYYY-MM-DD HH:MM:SS.sssZ`.';
+    case 'file':
+      return isMultiple(field)
+        ? 'The names of the uploaded files.'
+        : 'The name of the uploaded file.';
+    case 'relation': {
+      const records = target ? ` \`${target.name}\`` : '';
+      return isMultiple(field)
+        ? `The ids of the related${records} records.`
+        : `The id of the related${records} record.`;
+    }
+  }
+  return undefined;
+}
+
+function renderProperty(property: Property, indent = ''): string {
+  const comment = property.comment ? `${indent}/** ${property.comment} */\n` : '';
+  const optional = property.optional ? '?' : '';
+  return `${comment}${indent}${propertyName(property.name)}${optional}: ${property.type};`;
+}
+
+function propertyName(name: string) {
+  return IDENTIFIER_PATTERN.test(name) ? name : JSON.stringify(name);
+}
+
+function pascalCase(name: string) {
+  return name
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join('');
+}
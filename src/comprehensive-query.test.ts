@@ -1,10 +1,17 @@
-import PocketbaseQuery from '.';
+import PocketbaseQuery, {
+  DanglingOperatorError,
+  EmptyGroupError,
+  EmptyValueError,
+  PocketbaseQueryError,
+  QueryValidationError,
+  UnbalancedBracketError,
+} from '.';
 
 // Mock type for testing
 interface TestRecord {
   title: string;
   content: string;
-  tags: string;
+  tags: string[];
   notebook: string;
   status: string;
   age: number;
@@ -18,6 +25,7 @@ interface TestRecord {
   published: boolean;
   collaborators: string[];
   visibility: string;
+  created: string;
 }
 
 describe('PocketbaseQuery Comprehensive Tests', () => {
@@ -135,18 +143,18 @@ describe('PocketbaseQuery Comprehensive Tests', () => {
       expect(result).toBe('(title~"test" || tags~"tag123")');
     });
 
-    test('should skip null values', () => {
+    test('should render explicit null values as the null literal', () => {
       const result = query
         .openBracket()
         .like('title', 'test')
         .or()
-        .like('content', null as any)
+        .equal('content', null)
         .or()
         .like('tags', 'tag123')
         .closeBracket()
         .build();
 
-      expect(result).toBe('(title~"test" || tags~"tag123")');
+      expect(result).toBe('(title~"test" || content=null || tags~"tag123")');
     });
 
     test('should handle all empty conditions in brackets', () => {
@@ -327,12 +335,12 @@ describe('PocketbaseQuery Comprehensive Tests', () => {
   describe('IN Method', () => {
     test('should handle IN with multiple values', () => {
       const result = query.in('category', ['electronics', 'furniture', 'books']).build();
-      expect(result).toBe('category~"electronics" || category~"furniture" || category~"books"');
+      expect(result).toBe('category="electronics" || category="furniture" || category="books"');
     });
 
     test('should filter out empty values in IN', () => {
       const result = query.in('category', ['electronics', '', 'furniture', null, 'books', undefined]).build();
-      expect(result).toBe('category~"electronics" || category~"furniture" || category~"books"');
+      expect(result).toBe('category="electronics" || category="furniture" || category="books"');
     });
 
     test('should handle empty array in IN', () => {
@@ -344,6 +352,51 @@ describe('PocketbaseQuery Comprehensive Tests', () => {
       const result = query.in('category', ['', null, undefined]).build();
       expect(result).toBe('');
     });
+
+    test('should match values exactly', () => {
+      expect(query.in('status', ['act']).build()).toBe('status="act"');
+    });
+
+    test('should group IN when joined with AND', () => {
+      const result = query.equal('owner', 'u1').and().in('status', ['draft', 'review']).build();
+      expect(result).toBe('owner="u1" && (status="draft" || status="review")');
+    });
+
+    test('should exclude values with NOT IN', () => {
+      const result = query
+        .equal('owner', 'u1')
+        .or()
+        .notIn('status', ['deleted', '', 'archived'])
+        .and()
+        .equal('published', true)
+        .build();
+      expect(result).toBe('owner="u1" || status!="deleted" && status!="archived" && published=true');
+    });
+
+    test('should keep NOT IN inside an explicit group', () => {
+      const result = query
+        .in('category', ['a', 'b'])
+        .or()
+        .group((q) => q.notIn('status', ['x', 'y']))
+        .build();
+      expect(result).toBe('category="a" || category="b" || (status!="x" && status!="y")');
+    });
+
+    test('should use array operators with anyIn and anyNotIn', () => {
+      const result = query
+        .anyIn('collaborators', ['u1', 'u2'])
+        .and()
+        .anyNotIn('tags', ['spam', 'nsfw'])
+        .build();
+      expect(result).toBe(
+        '(collaborators?="u1" || collaborators?="u2") && tags?!="spam" && tags?!="nsfw"'
+      );
+    });
+
+    test('should keep the LIKE behaviour with likeAny', () => {
+      const result = query.equal('owner', 'u1').and().likeAny('category', ['elec', 'furn']).build();
+      expect(result).toBe('owner="u1" && (category~"elec" || category~"furn")');
+    });
   });
 
   describe('Custom Filter', () => {
@@ -373,6 +426,422 @@ describe('PocketbaseQuery Comprehensive Tests', () => {
     });
   });
 
+  describe('Expression Tree', () => {
+    test('should expose conditions and joins through toAST', () => {
+      const ast = query.equal('status', 'active').and().greaterThan('comments', 10).toAST();
+
+      expect(ast).toEqual({
+        type: 'logical',
+        operator: '&&',
+        children: [
+          { type: 'condition', field: 'status', operator: '=', value: 'active' },
+          { type: 'condition', field: 'comments', operator: '>', value: 10 },
+        ],
+      });
+    });
+
+    test('should give && precedence over ||', () => {
+      const ast = query
+        .equal('status', 'a')
+        .and()
+        .equal('owner', 'b')
+        .or()
+        .equal('visibility', 'c')
+        .toAST();
+
+      expect(ast).toMatchObject({
+        type: 'logical',
+        operator: '||',
+        children: [{ type: 'logical', operator: '&&' }, { type: 'condition', field: 'visibility' }],
+      });
+      expect(query.build()).toBe('status="a" && owner="b" || visibility="c"');
+    });
+
+    test('should record brackets as group nodes', () => {
+      const ast = query.openBracket().equal('status', 'a').closeBracket().toAST();
+
+      expect(ast).toEqual({
+        type: 'group',
+        child: { type: 'condition', field: 'status', operator: '=', value: 'a' },
+      });
+    });
+
+    test('should return null for an empty query', () => {
+      expect(query.and().openBracket().closeBracket().toAST()).toBeNull();
+    });
+
+    test('should not rewrite quoted values that look like expressions', () => {
+      const result = query.equal('title', 'a)b=c && (d').build();
+      expect(result).toBe('title="a)b=c && (d"');
+    });
+
+    test('should join expressions without an operator with &&', () => {
+      const result = query
+        .openBracket()
+        .equal('status', 'a')
+        .closeBracket()
+        .equal('owner', 'b')
+        .build();
+      expect(result).toBe('(status="a") && owner="b"');
+    });
+
+    test('should parenthesize custom filters containing || when joined with &&', () => {
+      const result = query
+        .equal('status', 'active')
+        .and()
+        .customFilter('title~"a" || title~"b"')
+        .build();
+      expect(result).toBe('status="active" && (title~"a" || title~"b")');
+    });
+
+    test('should render open brackets as closed in getQuery', () => {
+      const result = query.equal('status', 'a').and().openBracket().equal('owner', 'b').getQuery();
+      expect(result).toBe('status="a" && (owner="b")');
+    });
+  });
+
+  describe('Callback Groups', () => {
+    test('should nest the callback expressions in parentheses', () => {
+      const result = query
+        .equal('status', 'active')
+        .and()
+        .group((q) => q.like('title', 'x').or().like('content', 'x'))
+        .build();
+      expect(result).toBe('status="active" && (title~"x" || content~"x")');
+    });
+
+    test('should join groups with andGroup and orGroup', () => {
+      const result = query
+        .group((q) => q.equal('owner', 'u1').or().equal('visibility', 'public'))
+        .andGroup((q) => q.equal('status', 'a').or().equal('status', 'b'))
+        .orGroup((q) => q.equal('published', true))
+        .build();
+      expect(result).toBe(
+        '(owner="u1" || visibility="public") && (status="a" || status="b") || (published=true)'
+      );
+    });
+
+    test('should nest groups', () => {
+      const result = query
+        .group((q) =>
+          q.like('title', 'x').orGroup((inner) => inner.like('content', 'x').and().equal('status', 'published'))
+        )
+        .build();
+      expect(result).toBe('(title~"x" || (content~"x" && status="published"))');
+    });
+
+    test('should drop groups whose conditions were all skipped', () => {
+      const result = query
+        .equal('status', 'active')
+        .andGroup((q) => q.like('title', '').or().like('content', undefined as any))
+        .and()
+        .equal('owner', 'u1')
+        .build();
+      expect(result).toBe('status="active" && owner="u1"');
+    });
+
+    test('should accept callbacks without a return value', () => {
+      const result = query
+        .group((q) => {
+          q.equal('status', 'a');
+        })
+        .build();
+      expect(result).toBe('(status="a")');
+    });
+
+    test('should use the returned builder in immutable mode', () => {
+      const result = PocketbaseQuery.create<TestRecord>({ immutable: true })
+        .equal('status', 'active')
+        .andGroup((q) => q.equal('owner', 'u1').or().equal('visibility', 'public'))
+        .build();
+      expect(result).toBe('status="active" && (owner="u1" || visibility="public")');
+    });
+
+    test('should accept callbacks without a return value in immutable mode', () => {
+      const base = PocketbaseQuery.create<TestRecord>({ immutable: true }).equal('status', 'active');
+      const result = base
+        .andGroup((q) => {
+          q.equal('owner', 'u1').or().equal('visibility', 'public');
+        })
+        .and()
+        .not((q) => {
+          q.equal('category', 'a');
+        })
+        .build();
+
+      expect(result).toBe('status="active" && (owner="u1" || visibility="public") && category!="a"');
+      expect(base.build()).toBe('status="active"');
+    });
+  });
+
+  describe('Bracket Balance', () => {
+    test('should throw when closing a bracket that was never opened', () => {
+      expect(() => query.equal('status', 'a').closeBracket()).toThrow(UnbalancedBracketError);
+    });
+
+    test('should throw when building with an unclosed bracket', () => {
+      expect(() => query.openBracket().equal('status', 'a').openBracket().build()).toThrow(
+        'openBracket() was never closed (2 unclosed brackets); add the missing closeBracket()'
+      );
+    });
+
+    test('should throw when a group callback leaves a bracket open', () => {
+      expect(() => query.group((q) => q.openBracket().equal('status', 'a'))).toThrow(
+        UnbalancedBracketError
+      );
+    });
+  });
+
+  describe('Strict Mode', () => {
+    const strict = () => PocketbaseQuery.create<TestRecord>({ strict: true });
+
+    test('should build valid queries as usual', () => {
+      const result = strict()
+        .equal('status', 'active')
+        .andGroup((q) => q.equal('owner', 'u1').or().equal('visibility', 'public'))
+        .build();
+      expect(result).toBe('status="active" && (owner="u1" || visibility="public")');
+    });
+
+    test('should throw for values skipped for being empty', () => {
+      expect(() => strict().equal('status', '').and().equal('owner', 'u1').build()).toThrow(
+        new EmptyValueError({
+          code: 'EMPTY_VALUE',
+          call: 'equal("status", "")',
+          message: 'was skipped because its value is empty',
+        })
+      );
+    });
+
+    test('should report every issue on the thrown error', () => {
+      try {
+        strict().equal('status', '').and().equal('owner', 'u1').build();
+        throw new Error('expected build to fail');
+      } catch (error) {
+        expect(error).toBeInstanceOf(QueryValidationError);
+        expect((error as QueryValidationError).issues.map(({ code, call }) => [code, call])).toEqual([
+          ['EMPTY_VALUE', 'equal("status", "")'],
+          ['DANGLING_OPERATOR', 'and()'],
+        ]);
+      }
+    });
+
+    test('should throw for operators with no operand', () => {
+      expect(() => strict().equal('status', 'a').or().build()).toThrow(DanglingOperatorError);
+      expect(() => strict().and().equal('status', 'a').build()).toThrow('and() has no expression before it');
+      expect(() => strict().equal('status', 'a').and().or().equal('owner', 'b').build()).toThrow(
+        'and() has no expression after it'
+      );
+    });
+
+    test('should throw for empty groups', () => {
+      expect(() => strict().equal('status', 'a').openBracket().closeBracket().build()).toThrow(
+        EmptyGroupError
+      );
+      expect(() =>
+        strict()
+          .equal('status', 'a')
+          .andGroup(() => undefined)
+          .build()
+      ).toThrow('andGroup() contains no expression');
+    });
+
+    test('should name issues found inside groups', () => {
+      expect(() =>
+        strict()
+          .group((q) => q.equal('status', 'a').or())
+          .build()
+      ).toThrow('or() has no expression after it');
+    });
+  });
+
+  describe('Lenient Mode Warnings', () => {
+    test('should collect repaired issues as warnings', () => {
+      const builder = PocketbaseQuery.create<TestRecord>()
+        .equal('status', '')
+        .and()
+        .equal('owner', 'u1')
+        .or();
+
+      expect(builder.getWarnings().map(({ code }) => code)).toEqual([
+        'EMPTY_VALUE',
+        'DANGLING_OPERATOR',
+        'DANGLING_OPERATOR',
+      ]);
+      expect(builder.build()).toBe('owner="u1"');
+    });
+
+    test('should pass warnings to onWarning when building', () => {
+      const onWarning = jest.fn();
+      const result = PocketbaseQuery.create<TestRecord>({ onWarning })
+        .in('category', ['a', ''])
+        .build();
+
+      expect(result).toBe('category="a"');
+      expect(onWarning).toHaveBeenCalledWith({
+        code: 'EMPTY_VALUE',
+        call: 'in("category", ["a", ""])',
+        message: 'skipped empty values',
+      });
+    });
+
+    test('should not report warnings for valid queries', () => {
+      const builder = query.equal('status', 'a').and().group((q) => q.equal('owner', 'b'));
+      expect(builder.getWarnings()).toEqual([]);
+    });
+  });
+
+  describe('Typed Values', () => {
+    test('should render numbers without quotes', () => {
+      const result = query
+        .equal('status', 'active')
+        .and()
+        .greaterThan('comments', 50)
+        .and()
+        .lessThanOrEqual('price', 9.99)
+        .build();
+      expect(result).toBe('status="active" && comments>50 && price<=9.99');
+    });
+
+    test('should keep numeric strings quoted', () => {
+      const result = query.greaterThan('comments', '50').build();
+      expect(result).toBe('comments>"50"');
+    });
+
+    test('should render booleans with any operator', () => {
+      const result = query.notEqual('published', false).build();
+      expect(result).toBe('published!=false');
+    });
+
+    test('should render dates as UTC datetime strings', () => {
+      const result = query
+        .greaterThanOrEqual('created', new Date(Date.UTC(2024, 0, 31, 8, 5, 3, 7)))
+        .build();
+      expect(result).toBe('created>="2024-01-31 08:05:03.007Z"');
+    });
+
+    test('should reject non-finite numbers and invalid dates', () => {
+      expect(() => query.equal('price', NaN)).toThrow(PocketbaseQueryError);
+      expect(() => query.equal('price', Infinity)).toThrow(PocketbaseQueryError);
+      expect(() => query.equal('created', new Date('nope'))).toThrow(PocketbaseQueryError);
+    });
+
+    test('should keep typed values in parameter mode', () => {
+      const date = new Date(Date.UTC(2024, 0, 1));
+      const result = query
+        .greaterThan('comments', 50)
+        .and()
+        .equal('owner', null)
+        .and()
+        .lessThan('created', date)
+        .build({ params: true });
+      expect(result).toEqual({
+        filter: 'comments>{:p0} && owner={:p1} && created<{:p2}',
+        params: { p0: 50, p1: null, p2: date },
+      });
+    });
+
+    test('should serialize typed custom filter params', () => {
+      const result = query
+        .customFilter('comments>{:min} && owner={:owner} && active={:active}', {
+          min: 10,
+          owner: null,
+          active: true,
+        })
+        .build();
+      expect(result).toBe('comments>10 && owner=null && active=true');
+    });
+  });
+
+  describe('Value Escaping', () => {
+    test('should escape double quotes in values', () => {
+      const result = query.equal('title', 'say "hi"').build();
+      expect(result).toBe('title="say \\"hi\\""');
+    });
+
+    test('should not allow values to inject extra conditions', () => {
+      const result = query.like('title', 'x" || id!="').build();
+      expect(result).toBe('title~"x\\" || id!=\\""');
+    });
+
+    test('should keep backslashes that do not precede the closing quote', () => {
+      const result = query.equal('title', 'a\\b').build();
+      expect(result).toBe('title="a\\b"');
+    });
+
+    test('should reject values ending with a backslash', () => {
+      expect(() => query.equal('title', 'abc\\')).toThrow(PocketbaseQueryError);
+    });
+
+    test('should escape values passed to IN', () => {
+      const result = query.in('category', ['a"b']).build();
+      expect(result).toBe('category="a\\"b"');
+    });
+  });
+
+  describe('Parameter Mode', () => {
+    test('should return placeholders and params', () => {
+      const result = query
+        .equal('status', 'active')
+        .and()
+        .equal('published', true)
+        .build({ params: true });
+
+      expect(result).toEqual({
+        filter: 'status={:p0} && published={:p1}',
+        params: { p0: 'active', p1: true },
+      });
+    });
+
+    test('should skip empty values in parameter mode', () => {
+      const result = query
+        .openBracket()
+        .like('title', 'test')
+        .or()
+        .like('content', '')
+        .closeBracket()
+        .build({ params: true });
+
+      expect(result).toEqual({ filter: '(title~{:p0})', params: { p0: 'test' } });
+    });
+
+    test('should reset params after build', () => {
+      query.equal('status', 'active').build({ params: true });
+      const result = query.equal('category', 'tech').build({ params: true });
+
+      expect(result).toEqual({ filter: 'category={:p0}', params: { p0: 'tech' } });
+    });
+  });
+
+  describe('Custom Filter Placeholders', () => {
+    test('should substitute escaped values into the filter string', () => {
+      const result = query
+        .customFilter('title~{:search} || content~{:search}', { search: 'a" || id!="' })
+        .build();
+
+      expect(result).toBe('title~"a\\" || id!=\\"" || content~"a\\" || id!=\\""');
+    });
+
+    test('should rename placeholders in parameter mode', () => {
+      const result = query
+        .equal('status', 'active')
+        .and()
+        .customFilter('created>{:date} && title~{:date}', { date: '2023-01-01' })
+        .build({ params: true });
+
+      expect(result).toEqual({
+        filter: 'status={:p0} && created>{:p1} && title~{:p1}',
+        params: { p0: 'active', p1: '2023-01-01' },
+      });
+    });
+
+    test('should throw when a placeholder has no value', () => {
+      expect(() => query.customFilter('created>{:date}', {})).toThrow(
+        'Missing value for filter placeholder {:date}'
+      );
+    });
+  });
+
   describe('Edge Cases and Error Handling', () => {
     test('should handle completely empty query', () => {
       const result = query.build();
@@ -446,6 +915,59 @@ describe('PocketbaseQuery Comprehensive Tests', () => {
     });
   });
 
+  describe('Independent Instances', () => {
+    test('should create a new builder on every call', () => {
+      const query1 = PocketbaseQuery.create<TestRecord>();
+      const query2 = PocketbaseQuery.create<TestRecord>();
+
+      expect(query1).not.toBe(query2);
+      expect(query1).not.toBe(PocketbaseQuery.getInstance<TestRecord>());
+    });
+
+    test('should not share state between concurrent builders', async () => {
+      const buildFilter = async (status: string) => {
+        const builder = PocketbaseQuery.create<TestRecord>().equal('status', status);
+        await Promise.resolve();
+        return builder.and().equal('owner', `${status}-owner`).build();
+      };
+
+      const results = await Promise.all([buildFilter('a'), buildFilter('b')]);
+      expect(results).toEqual(['status="a" && owner="a-owner"', 'status="b" && owner="b-owner"']);
+    });
+
+    test('should fork a partially built query with clone', () => {
+      const base = PocketbaseQuery.create<TestRecord>()
+        .equal('status', 'active')
+        .and()
+        .openBracket()
+        .equal('owner', 'u1');
+      const fork = base.clone();
+
+      expect(base.or().equal('visibility', 'public').closeBracket().build()).toBe(
+        'status="active" && (owner="u1" || visibility="public")'
+      );
+      expect(fork.closeBracket().build()).toBe('status="active" && (owner="u1")');
+    });
+
+    test('should return a new builder from every call in immutable mode', () => {
+      const base = PocketbaseQuery.create<TestRecord>({ immutable: true }).equal('status', 'published');
+      const mine = base.and().equal('owner', 'u1');
+      const popular = base.and().greaterThan('comments', 100);
+
+      expect(mine).not.toBe(base);
+      expect(mine.build()).toBe('status="published" && owner="u1"');
+      expect(popular.build()).toBe('status="published" && comments>100');
+      expect(base.build()).toBe('status="published"');
+    });
+
+    test('should keep the base query in immutable mode after build', () => {
+      const base = PocketbaseQuery.create<TestRecord>({ immutable: true }).in('category', ['a', 'b']);
+
+      expect(base.build()).toBe('category="a" || category="b"');
+      expect(base.build()).toBe('category="a" || category="b"');
+    });
+  });
+
   describe('getQuery method', () => {
     test('should return current query without building', () => {
       query.equal('status', 'active').and().like('title', 'test');
@@ -530,4 +1052,113 @@ describe('PocketbaseQuery Comprehensive Tests', () => {
       expect(result).toBe('(title~"test" || tags?~"tech") && published=true');
     });
   });
-});
\ No newline at end of file
+
+  describe('Empty Checks', () => {
+    test('should check for empty and non-empty fields', () => {
+      const result = query
+        .isEmpty('description')
+        .and()
+        .isNotEmpty('title')
+        .and()
+        .isEmpty('tags', { multiple: true })
+        .or()
+        .isNotEmpty('collaborators', { multiple: true })
+        .build();
+      expect(result).toBe(
+        'description="" && title!="" && tags:length=0 || collaborators:length>0'
+      );
+    });
+
+    test('should check for null and non-null fields', () => {
+      const result = query.isNull('owner').or().isNotNull('price').build();
+      expect(result).toBe('owner=null || price!=null');
+    });
+
+    test('should require the multiple flag for array fields', () => {
+      // @ts-expect-error tags holds multiple values
+      query.isEmpty('tags');
+      // @ts-expect-error title holds a single value
+      query.isEmpty('title', { multiple: true });
+      // @ts-expect-error price is neither a text nor a multiple field
+      query.isEmpty('price');
+      expect(query.build()).toBe('tags="" && title:length=0 && price=""');
+    });
+
+    test('should not be affected by the empty-value policy', () => {
+      const result = PocketbaseQuery.create<TestRecord>({ strict: true, emptyValues: 'throw' })
+        .isEmpty('title')
+        .build();
+      expect(result).toBe('title=""');
+    });
+  });
+
+  describe('Empty Value Policy', () => {
+    test('should skip empty values by default', () => {
+      const result = PocketbaseQuery.create<TestRecord>()
+        .equal('status', '')
+        .and()
+        .notIn('category', ['a', null])
+        .build();
+      expect(result).toBe('category!="a"');
+    });
+
+    test('should throw on empty values', () => {
+      const builder = PocketbaseQuery.create<TestRecord>({ emptyValues: 'throw' });
+
+      expect(() => builder.equal('status', '')).toThrow(EmptyValueError);
+      expect(() => builder.equal('status', '')).toThrow('equal("status", "") has an empty value');
+      expect(() => builder.in('category', ['a', ''])).toThrow(
+        'in("category", ["a", ""]) has empty values'
+      );
+      expect(() => builder.between('price', 1, undefined as any)).toThrow(EmptyValueError);
+      expect(builder.equal('status', 'active').build()).toBe('status="active"');
+    });
+
+    test('should treat empty values as null', () => {
+      const result = PocketbaseQuery.create<TestRecord>({ emptyValues: 'null' })
+        .equal('status', '')
+        .and()
+        .like('title', undefined as any)
+        .and()
+        .in('category', ['a', ''])
+        .build();
+      expect(result).toBe('status=null && title~null && (category="a" || category=null)');
+    });
+
+    test('should report empty lists of values', () => {
+      const lenient = PocketbaseQuery.create<TestRecord>().equal('status', 'a').and().in('category', []);
+
+      expect(lenient.getWarnings()[0]).toEqual({
+        code: 'EMPTY_VALUE',
+        call: 'in("category", [])',
+        message: 'was skipped because it has no values',
+      });
+      expect(lenient.build()).toBe('status="a"');
+      expect(() => PocketbaseQuery.create<TestRecord>({ strict: true }).in('category', []).build()).toThrow(
+        EmptyValueError
+      );
+      expect(() =>
+        PocketbaseQuery.create<TestRecord>({ strict: true }).anyIn('tags', ['', null]).build()
+      ).toThrow(EmptyValueError);
+      expect(() =>
+        PocketbaseQuery.create<TestRecord>({ emptyValues: 'throw' })
+          .equal('status', 'a')
+          .and()
+          .notIn('category', [])
+      ).toThrow('notIn("category", []) has no values');
+    });
+
+    test('should match no record for an empty list of alternatives with the null policy', () => {
+      const builder = () => PocketbaseQuery.create<TestRecord>({ emptyValues: 'null' });
+
+      expect(builder().equal('status', 'a').and().in('category', []).build()).toBe(
+        'status="a" && category=null && category!=null'
+      );
+      expect(builder().likeAny('title', []).or().equal('status', 'a').build()).toBe(
+        'title=null && title!=null || status="a"'
+      );
+      expect(builder().in('category', []).matches({ category: '' })).toBe(false);
+      expect(builder().equal('status', 'a').and().notIn('category', []).build()).toBe('status="a"');
+    });
+  });
+});
@@ -0,0 +1,154 @@
+import PocketbaseQuery, { DateMacro, dayRange, PocketbaseQueryError, startOfDay } from '.';
+
+interface Post {
+  title: string;
+  created: string;
+  updated: string;
+}
+
+describe('DateMacro', () => {
+  test('should render macros unquoted', () => {
+    const result = PocketbaseQuery.create<Post>()
+      .greaterThan('created', DateMacro.todayStart)
+      .and()
+      .lessThan('updated', DateMacro.now)
+      .build();
+
+    expect(result).toBe('created>@todayStart && updated<@now');
+  });
+
+  test('should keep macros inline in parameter mode', () => {
+    expect(
+      PocketbaseQuery.create<Post>().greaterThan('created', DateMacro.yesterday).build({ params: true })
+    ).toEqual({ filter: 'created>@yesterday', params: {} });
+  });
+});
+
+describe('startOfDay and dayRange', () => {
+  test('should compute day bounds in UTC by default', () => {
+    expect(dayRange('2024-05-01')).toEqual({
+      from: new Date('2024-05-01T00:00:00.000Z'),
+      to: new Date('2024-05-02T00:00:00.000Z'),
+    });
+  });
+
+  test('should compute day bounds in a time zone', () => {
+    expect(startOfDay('2024-05-01', 'Europe/Istanbul')).toEqual(
+      new Date('2024-04-30T21:00:00.000Z')
+    );
+    expect(startOfDay('2024-05-01', 'Asia/Kolkata')).toEqual(new Date('2024-04-30T18:30:00.000Z'));
+  });
+
+  test('should use the day an instant falls on in the time zone', () => {
+    const instant = new Date('2024-05-01T02:00:00.000Z');
+
+    expect(startOfDay(instant, 'America/Los_Angeles')).toEqual(
+      new Date('2024-04-30T07:00:00.000Z')
+    );
+    expect(startOfDay(instant, 'Asia/Tokyo')).toEqual(new Date('2024-04-30T15:00:00.000Z'));
+  });
+
+  test('should cover days shortened or lengthened by daylight saving time', () => {
+    const spring = dayRange('2024-03-10', 'America/New_York');
+    const autumn = dayRange('2024-11-03', 'America/New_York');
+
+    expect(spring).toEqual({
+      from: new Date('2024-03-10T05:00:00.000Z'),
+      to: new Date('2024-03-11T04:00:00.000Z'),
+    });
+    expect(autumn.to.getTime() - autumn.from.getTime()).toBe(25 * 60 * 60 * 1000);
+  });
+
+  test('should reject invalid days and time zones', () => {
+    expect(() => startOfDay('2024-02-30')).toThrow('Invalid day: "2024-02-30", expected YYYY-MM-DD');
+    expect(() => startOfDay('01/05/2024')).toThrow(PocketbaseQueryError);
+    expect(() => startOfDay(new Date('invalid'))).toThrow(PocketbaseQueryError);
+    expect(() => startOfDay('2024-05-01', 'Mars/Olympus')).toThrow(
+      'Unknown time zone: "Mars/Olympus"'
+    );
+  });
+});
+
+describe('Date Helpers', () => {
+  beforeEach(() => {
+    jest.useFakeTimers().setSystemTime(new Date('2024-05-10T12:00:00.000Z'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('should match an inclusive range with between', () => {
+    const result = PocketbaseQuery.create<Post>()
+      .between('created', new Date('2024-01-01T00:00:00.000Z'), DateMacro.now)
+      .build();
+
+    expect(result).toBe('created>="2024-01-01 00:00:00.000Z" && created<=@now');
+  });
+
+  test('should keep a range together when joined with or', () => {
+    const query = PocketbaseQuery.create<Post>()
+      .equal('title', 'pinned')
+      .or()
+      .between('created', '2024-01-01', '2024-02-01')
+      .and()
+      .equal('updated', '2024-03-01');
+
+    expect(query.toAST()).toMatchObject({
+      operator: '||',
+      children: [
+        { type: 'condition', field: 'title' },
+        {
+          operator: '&&',
+          children: [{ type: 'logical', operator: '&&' }, { field: 'updated' }],
+        },
+      ],
+    });
+  });
+
+  test('should match records created within a duration', () => {
+    expect(PocketbaseQuery.create<Post>().createdWithin({ days: 7 }).build()).toBe(
+      'created>="2024-05-03 12:00:00.000Z"'
+    );
+    expect(PocketbaseQuery.create<Post>().within('updated', { hours: 1, minutes: 30 }).build()).toBe(
+      'updated>="2024-05-10 10:30:00.000Z"'
+    );
+  });
+
+  test('should reject invalid durations', () => {
+    expect(() => PocketbaseQuery.create<Post>().createdWithin({ days: -1 })).toThrow(
+      'Duration days must be a non-negative number, got -1'
+    );
+  });
+
+  test('should match a calendar day in a time zone', () => {
+    expect(PocketbaseQuery.create<Post>().onDay('created', '2024-05-01', 'Europe/Istanbul').build()).toBe(
+      'created>="2024-04-30 21:00:00.000Z" && created<"2024-05-01 21:00:00.000Z"'
+    );
+  });
+
+  test('should skip a range with an empty bound', () => {
+    const query = PocketbaseQuery.create<Post>().between('created', '', DateMacro.now);
+
+    expect(query.getWarnings()).toEqual([
+      {
+        code: 'EMPTY_VALUE',
+        call: 'between("created", "", @now)',
+        message: 'was skipped because a bound is empty',
+      },
+    ]);
+    expect(query.build()).toBe('');
+  });
+
+  test('should reject invalid bounds when the range is added', () => {
+    const query = PocketbaseQuery.create<Post>();
+
+    expect(() => query.between('created', {} as any, DateMacro.now)).toThrow(
+      'Cannot encode a value of type object in a filter'
+    );
+    expect(() => query.between('created', DateMacro.now, new Date('nope'))).toThrow(
+      PocketbaseQueryError
+    );
+    expect(query.toAST()).toBeNull();
+  });
+});
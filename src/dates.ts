@@ -0,0 +1,183 @@
+import { PocketbaseQueryError } from './errors';
+import { Identifier } from './values';
+
+/**
+ * The datetime macros of PocketBase filters, rendered unquoted.
+ * PocketBase evaluates them on the server, in UTC.
+ *
+ * @example
+ * query.greaterThan("created", DateMacro.todayStart); // created>@todayStart
+ */
+export const DateMacro = {
+  now: new Identifier('@now'),
+  second: new Identifier('@second'),
+  minute: new Identifier('@minute'),
+  hour: new Identifier('@hour'),
+  weekday: new Identifier('@weekday'),
+  day: new Identifier('@day'),
+  month: new Identifier('@month'),
+  year: new Identifier('@year'),
+  yesterday: new Identifier('@yesterday'),
+  tomorrow: new Identifier('@tomorrow'),
+  todayStart: new Identifier('@todayStart'),
+  todayEnd: new Identifier('@todayEnd'),
+  monthStart: new Identifier('@monthStart'),
+  monthEnd: new Identifier('@monthEnd'),
+  yearStart: new Identifier('@yearStart'),
+  yearEnd: new Identifier('@yearEnd'),
+} as const;
+
+export type DateMacroName = keyof typeof DateMacro;
+
+/**
+ * A length of time, e.g. `{ days: 7 }` or `{ hours: 1, minutes: 30 }`.
+ */
+export interface Duration {
+  weeks?: number;
+  days?: number;
+  hours?: number;
+  minutes?: number;
+  seconds?: number;
+}
+
+/**
+ * A range of instants, from `from` (inclusive) to `to` (exclusive).
+ */
+export interface DateRange {
+  from: Date;
+  to: Date;
+}
+
+const DURATION_UNITS: Record<keyof Duration, number> = {
+  weeks: 7 * 24 * 60 * 60 * 1000,
+  days: 24 * 60 * 60 * 1000,
+  hours: 60 * 60 * 1000,
+  minutes: 60 * 1000,
+  seconds: 1000,
+};
+
+const DAY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+
+/**
+ * Computes the instant a duration before another one.
+ *
+ * @param {Duration} duration - The length of time to go back.
+ * @param {Date} now - The instant to go back from, the current time by default.
+ * @returns {Date} The earlier instant.
+ * @throws {PocketbaseQueryError} When a unit of the duration is negative or not a finite number.
+ */
+export function subtractDuration(duration: Duration, now = new Date()): Date {
+  const milliseconds = Object.entries(duration).reduce((total, [unit, amount]) => {
+    if (!(unit in DURATION_UNITS)) {
+      throw new PocketbaseQueryError(`Unknown duration unit: ${unit}`);
+    }
+    if (typeof amount !== 'number' || !Number.isFinite(amount) || amount < 0) {
+      throw new PocketbaseQueryError(
+        `Duration ${unit} must be a non-negative number, got ${amount}`
+      );
+    }
+    return total + amount * DURATION_UNITS[unit as keyof Duration];
+  }, 0);
+  return new Date(now.getTime() - milliseconds);
+}
+
+/**
+ * Computes the instant a calendar day starts in a time zone.
+ *
+ * @example
+ * startOfDay("2024-03-10", "America/New_York"); // 2024-03-10T05:00:00.000Z
+ *
+ * @param {Date | string} date - An instant falling on the day, or the day as `YYYY-MM-DD`.
+ * @param {string} timeZone - An IANA time zone such as `Europe/Istanbul`, UTC by default.
+ * @returns {Date} The first instant of the day.
+ * @throws {PocketbaseQueryError} When the date or the time zone is invalid.
+ */
+export function startOfDay(date: Date | string, timeZone = 'UTC'): Date {
+  const [year, month, day] = calendarDay(date, timeZone);
+  return zonedMidnight(year, month, day, timeZone);
+}
+
+/**
+ * Computes the instants a calendar day starts and ends in a time zone.
+ * Days around daylight saving time changes are 23 or 25 hours long, so the
+ * end is the start of the next day rather than 24 hours later.
+ *
+ * @param {Date | string} date - An instant falling on the day, or the day as `YYYY-MM-DD`.
+ * @param {string} timeZone - An IANA time zone such as `Europe/Istanbul`, UTC by default.
+ * @returns {DateRange} The start of the day and the start of the next day.
+ * @throws {PocketbaseQueryError} When the date or the time zone is invalid.
+ */
+export function dayRange(date: Date | string, timeZone = 'UTC'): DateRange {
+  const [year, month, day] = calendarDay(date, timeZone);
+  return {
+    from: zonedMidnight(year, month, day, timeZone),
+    to: zonedMidnight(year, month, day + 1, timeZone),
+  };
+}
+
+/**
+ * Returns the year, month and day an instant falls on in a time zone, or
+ * the components of a `YYYY-MM-DD` string.
+ */
+function calendarDay(date: Date | string, timeZone: string): [number, number, number] {
+  if (typeof date !== 'string') {
+    const { year, month, day } = zonedParts(date, timeZone);
+    return [year, month, day];
+  }
+
+  const match = DAY_PATTERN.exec(date);
+  const [year, month, day] = match ? match.slice(1).map(Number) : [];
+  if (!match || new Date(Date.UTC(year, month - 1, day)).getUTCDate() !== day) {
+    throw new PocketbaseQueryError(`Invalid day: ${JSON.stringify(date)}, expected YYYY-MM-DD`);
+  }
+  return [year, month, day];
+}
+
+/**
+ * Converts midnight of a calendar day in a time zone to a UTC instant.
+ * The offset is looked up twice, since it may change between the UTC guess and the result.
+ */
+function zonedMidnight(year: number, month: number, day: number, timeZone: string): Date {
+  const local = Date.UTC(year, month - 1, day);
+  const guess = local - timeZoneOffset(new Date(local), timeZone);
+  return new Date(local - timeZoneOffset(new Date(guess), timeZone));
+}
+
+/**
+ * Returns the offset of a time zone from UTC at an instant, in milliseconds.
+ */
+function timeZoneOffset(date: Date, timeZone: string) {
+  const { year, month, day, hour, minute, second } = zonedParts(date, timeZone);
+  const local = Date.UTC(year, month - 1, day, hour, minute, second);
+  return local - (date.getTime() - date.getUTCMilliseconds());
+}
+
+/**
+ * Returns the wall-clock components of an instant in a time zone.
+ */
+function zonedParts(date: Date, timeZone: string) {
+  if (Number.isNaN(date.getTime())) {
+    throw new PocketbaseQueryError('Cannot compute the day of an invalid Date');
+  }
+
+  let format: Intl.DateTimeFormat;
+  try {
+    format = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+  } catch {
+    throw new PocketbaseQueryError(`Unknown time zone: ${JSON.stringify(timeZone)}`);
+  }
+
+  const parts = Object.fromEntries(
+    format.formatToParts(date).map(({ type, value }) => [type, Number(value)])
+  );
+  return parts as Record<'year' | 'month' | 'day' | 'hour' | 'minute' | 'second', number>;
+}
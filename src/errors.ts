@@ -0,0 +1,148 @@
+/**
+ * Base class for every error thrown by the query builder.
+ * Catch this class to handle any library error regardless of its cause.
+ */
+export class PocketbaseQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PocketbaseQueryError';
+  }
+}
+
+/**
+ * Thrown when a filter string cannot be parsed.
+ * `position` is the zero-based index of the offending character.
+ */
+export class FilterParseError extends PocketbaseQueryError {
+  readonly position: number;
+
+  constructor(message: string, position: number) {
+    super(`${message} at position ${position}`);
+    this.name = 'FilterParseError';
+    this.position = position;
+  }
+}
+
+/**
+ * The kinds of problems the builder can detect in a chain of calls.
+ * - `UNBALANCED_BRACKET`: `openBracket()` and `closeBracket()` calls do not match up.
+ * - `DANGLING_OPERATOR`: `and()`/`or()` without an expression on one of its sides.
+ * - `EMPTY_GROUP`: a bracket or group without any expression inside.
+ * - `EMPTY_VALUE`: a condition skipped because its value was empty.
+ * - `UNKNOWN_FIELD`: a field the collection schema does not have.
+ * - `UNKNOWN_RELATION`: a relation path that does not resolve to a collection of the schema.
+ * - `INVALID_OPERATOR`: an any-item `?` operator on a field holding a single value.
+ * - `INVALID_VALUE`: a select field compared with a value that is not one of its options.
+ */
+export type QueryIssueCode =
+  | 'UNBALANCED_BRACKET'
+  | 'DANGLING_OPERATOR'
+  | 'EMPTY_GROUP'
+  | 'EMPTY_VALUE'
+  | 'UNKNOWN_FIELD'
+  | 'UNKNOWN_RELATION'
+  | 'INVALID_OPERATOR'
+  | 'INVALID_VALUE';
+
+/**
+ * A problem detected in a chain of builder calls.
+ */
+export interface QueryIssue {
+  code: QueryIssueCode;
+  /** The offending builder call, e.g. `equal("status", "")`. */
+  call: string;
+  message: string;
+}
+
+/**
+ * Base class of the errors describing a problem in a chain of builder calls.
+ * `issues` lists every problem found, starting with the one this error describes.
+ */
+export class QueryValidationError extends PocketbaseQueryError {
+  readonly code: QueryIssueCode;
+  readonly call: string;
+  readonly issues: QueryIssue[];
+
+  constructor(issue: QueryIssue, issues: QueryIssue[] = [issue]) {
+    super(`${issue.call} ${issue.message}`);
+    this.name = 'QueryValidationError';
+    this.code = issue.code;
+    this.call = issue.call;
+    this.issues = issues;
+  }
+}
+
+/**
+ * Thrown when `openBracket()` and `closeBracket()` calls do not match up.
+ */
+export class UnbalancedBracketError extends QueryValidationError {
+  constructor(issue: QueryIssue, issues?: QueryIssue[]) {
+    super(issue, issues);
+    this.name = 'UnbalancedBracketError';
+  }
+}
+
+/**
+ * Thrown in strict mode when `and()` or `or()` lacks an expression on one of its sides.
+ */
+export class DanglingOperatorError extends QueryValidationError {
+  constructor(issue: QueryIssue, issues?: QueryIssue[]) {
+    super(issue, issues);
+    this.name = 'DanglingOperatorError';
+  }
+}
+
+/**
+ * Thrown in strict mode when a bracket or group contains no expression.
+ */
+export class EmptyGroupError extends QueryValidationError {
+  constructor(issue: QueryIssue, issues?: QueryIssue[]) {
+    super(issue, issues);
+    this.name = 'EmptyGroupError';
+  }
+}
+
+/**
+ * Thrown in strict mode when a condition was skipped because its value was empty.
+ */
+export class EmptyValueError extends QueryValidationError {
+  constructor(issue: QueryIssue, issues?: QueryIssue[]) {
+    super(issue, issues);
+    this.name = 'EmptyValueError';
+  }
+}
+
+/**
+ * Thrown in strict mode when a condition does not match the schema attached to the builder:
+ * an unknown field or relation, an operator or a value the field does not accept.
+ */
+export class SchemaValidationError extends QueryValidationError {
+  constructor(issue: QueryIssue, issues?: QueryIssue[]) {
+    super(issue, issues);
+    this.name = 'SchemaValidationError';
+  }
+}
+
+const ISSUE_ERRORS: Record<
+  QueryIssueCode,
+  new (issue: QueryIssue, issues?: QueryIssue[]) => QueryValidationError
+> = {
+  UNBALANCED_BRACKET: UnbalancedBracketError,
+  DANGLING_OPERATOR: DanglingOperatorError,
+  EMPTY_GROUP: EmptyGroupError,
+  EMPTY_VALUE: EmptyValueError,
+  UNKNOWN_FIELD: SchemaValidationError,
+  UNKNOWN_RELATION: SchemaValidationError,
+  INVALID_OPERATOR: SchemaValidationError,
+  INVALID_VALUE: SchemaValidationError,
+};
+
+/**
+ * Creates the typed error describing the first of the given issues.
+ *
+ * @param {QueryIssue[]} issues - The issues found, at least one.
+ * @returns {QueryValidationError} The error matching the code of the first issue.
+ */
+export function createIssueError(issues: QueryIssue[]): QueryValidationError {
+  return new ISSUE_ERRORS[issues[0].code](issues[0], issues);
+}
@@ -0,0 +1,164 @@
+import PocketbaseQuery, { DateMacro, evaluate, PocketbaseQueryError, request } from '.';
+
+interface Post {
+  title: string;
+  status: string;
+  views: number;
+  published: boolean;
+  tags: string[];
+  author: string;
+  created: string;
+  expand?: { author?: { name: string; role: string }; comments_via_post?: { text: string }[] };
+}
+
+const post: Post = {
+  title: 'Hello PocketBase',
+  status: 'published',
+  views: 120,
+  published: true,
+  tags: ['news', 'tech'],
+  author: 'u1',
+  created: '2024-05-01 10:00:00.000Z',
+  expand: {
+    author: { name: 'Ada', role: 'editor' },
+    comments_via_post: [{ text: 'Great post' }, { text: 'Thanks' }],
+  },
+};
+
+describe('evaluate', () => {
+  test('should evaluate comparison operators', () => {
+    const cases: [string, boolean][] = [
+      ['status="published"', true],
+      ['status!="published"', false],
+      ['views>100', true],
+      ['views>=120', true],
+      ['views<120', false],
+      ['views<=120', true],
+      ['published=true', true],
+      ['published=false', false],
+      ['1=1', true],
+      ['"published"=status', true],
+      ['120<views', false],
+    ];
+
+    cases.forEach(([filter, expected]) => expect(evaluate(filter, { ...post })).toBe(expected));
+  });
+
+  test('should match like case-insensitively with wildcards', () => {
+    const cases: [string, boolean][] = [
+      ['title~"pocket"', true],
+      ['title!~"pocket"', false],
+      ['title~"hello%"', true],
+      ['title~"%base"', true],
+      ['title~"pocket%"', false],
+      ['title~"50%"', false],
+      ['title~"_ello%"', true],
+      ['title~"hello_"', false],
+    ];
+
+    cases.forEach(([filter, expected]) => expect(evaluate(filter, { ...post })).toBe(expected));
+  });
+
+  test('should escape wildcards of auto-wrapped values', () => {
+    expect(evaluate('code~"a_b"', { code: 'axb' })).toBe(false);
+    expect(evaluate('code~"a_b"', { code: 'xa_bx' })).toBe(true);
+  });
+
+  test('should require every item to match without ? and any item with ?', () => {
+    const cases: [string, boolean][] = [
+      ['tags="news"', false],
+      ['tags?="news"', true],
+      ['tags!="sport"', true],
+      ['tags?!="news"', true],
+      ['tags~"e"', true],
+      ['tags?~"ch"', true],
+      ['tags:each~"ch"', false],
+      ['tags:length=2', true],
+    ];
+
+    cases.forEach(([filter, expected]) => expect(evaluate(filter, { ...post })).toBe(expected));
+  });
+
+  test('should treat null and empty values alike', () => {
+    expect(evaluate('author=null', { author: '' })).toBe(true);
+    expect(evaluate('author=""', { author: null })).toBe(true);
+    expect(evaluate('author!=null', { author: 'u1' })).toBe(true);
+    expect(evaluate('tags=""', { tags: [] })).toBe(true);
+    expect(evaluate('views>0', { views: null })).toBe(false);
+  });
+
+  test('should coerce between strings, numbers and dates', () => {
+    expect(evaluate('views="120"', { views: 120 })).toBe(true);
+    expect(evaluate('views>99', { views: '100' })).toBe(true);
+    expect(evaluate('code>10', { code: 'abc' })).toBe(true);
+    expect(
+      evaluate(PocketbaseQuery.create<Post>().lessThan('created', new Date('2024-06-01')).toAST(), {
+        ...post,
+      })
+    ).toBe(true);
+    expect(
+      evaluate('created>"2024-04-30 00:00:00.000Z"', { created: new Date('2024-05-01') })
+    ).toBe(true);
+  });
+
+  test('should go through expanded relations and back-relations', () => {
+    expect(evaluate('author.name="Ada" && author.role:lower="editor"', { ...post })).toBe(true);
+    expect(evaluate('comments_via_post.text?~"great"', { ...post })).toBe(true);
+    expect(evaluate('comments_via_post.text~"great"', { ...post })).toBe(false);
+    expect(() => evaluate('author.name="Ada"', { author: 'u1' })).toThrow(
+      'Cannot evaluate author.name: the relation author is not expanded on the record'
+    );
+  });
+
+  test('should resolve macros and request references', () => {
+    const now = new Date('2024-05-01T12:00:00.000Z');
+    const context = { now, request: { auth: { id: 'u1' }, body: { status: 'draft' } } };
+
+    expect(evaluate('created>=@todayStart && created<@now', { ...post }, context)).toBe(true);
+    expect(evaluate('created<@yesterday', { ...post }, context)).toBe(false);
+    expect(evaluate('@month=5 && @year=2024', {}, context)).toBe(true);
+    expect(evaluate('author=@request.auth.id', { ...post }, context)).toBe(true);
+    expect(
+      evaluate(
+        '@request.body.status:isset=true && @request.body.status:changed=true',
+        { ...post },
+        context
+      )
+    ).toBe(true);
+    expect(() => evaluate('@collection.users.id=author', { ...post })).toThrow(
+      PocketbaseQueryError
+    );
+  });
+
+  test('should evaluate parameterized filters and custom filters', () => {
+    const built = PocketbaseQuery.create<Post>()
+      .equal('status', 'published')
+      .and()
+      .customFilter('views>{:min}', { min: 100 })
+      .build({ params: true });
+
+    expect(evaluate(built, { ...post })).toBe(true);
+    expect(evaluate('', { ...post })).toBe(true);
+  });
+});
+
+describe('PocketbaseQuery.matches', () => {
+  test('should match records without resetting the builder', () => {
+    const query = PocketbaseQuery.create<Post>()
+      .in('status', ['published', 'featured'])
+      .and()
+      .greaterThan('created', DateMacro.yearStart);
+    const now = new Date('2024-05-02T00:00:00.000Z');
+
+    expect(query.matches(post, { now })).toBe(true);
+    expect(query.matches({ ...post, status: 'draft' }, { now })).toBe(false);
+    expect(query.build()).toBe('(status="published" || status="featured") && created>@yearStart');
+  });
+
+  test('should evaluate rules against the request', () => {
+    const rule = PocketbaseQuery.rule<Post>().equal('author', request.auth('id'));
+
+    expect(rule.matches(post, { request: { auth: { id: 'u1' } } })).toBe(true);
+    expect(rule.matches(post, { request: { auth: null } })).toBe(false);
+  });
+});
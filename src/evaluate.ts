@@ -0,0 +1,386 @@
+import { FilterNode, renderNode } from './ast';
+import { PocketbaseQueryError } from './errors';
+import { OperatorType } from './operators';
+import { parseFilter, parseLiteral } from './parser';
+import {
+  FilterParams,
+  formatDate,
+  Identifier,
+  likePattern,
+  replacePlaceholders,
+  serializeValue,
+} from './values';
+
+/**
+ * The request data `@request.*` references resolve to, and the current time
+ * used by datetime macros.
+ */
+export interface EvaluationContext {
+  request?: {
+    auth?: Record<string, unknown> | null;
+    body?: Record<string, unknown>;
+    query?: Record<string, unknown>;
+    headers?: Record<string, unknown>;
+    context?: string;
+    method?: string;
+  };
+  /** The current time for `@now` and the other datetime macros, the actual time by default. */
+  now?: Date;
+}
+
+/**
+ * A filter to evaluate: a built filter string, the result of `build({ params: true })`
+ * or an expression tree returned by `toAST()`.
+ */
+export type EvaluableFilter = string | { filter: string; params: FilterParams } | FilterNode | null;
+
+/**
+ * The values an operand resolves to. Multiple fields and paths through
+ * multiple relations resolve to one value per item.
+ */
+interface Operand {
+  values: unknown[];
+  /** Set by the `:each` modifier, which requires every item to match even with `?` operators. */
+  each?: boolean;
+}
+
+type Comparison = '=' | '!=' | '>' | '>=' | '<' | '<=' | '~' | '!~';
+
+const MODIFIER_PATTERN = /^(.+):(isset|changed|length|each|lower)$/;
+const NUMERIC_PATTERN = /^\s*-?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?\s*$/;
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Checks whether a record matches a filter, following the semantics PocketBase
+ * applies on the server:
+ * - `=` and `!=` treat `null` and `""` alike;
+ * - `~` and `!~` are case-insensitive, with the value wrapped in `%` wildcards
+ *   unless it already contains one;
+ * - operators without `?` must hold for every item of a multiple field, the `?`
+ *   operators for at least one of them;
+ * - numeric strings are compared with numbers as numbers, and strings are
+ *   compared with dates as datetimes.
+ *
+ * Relation paths are read from the `expand` property of the record, so the
+ * relations a filter goes through must be expanded.
+ *
+ * @example
+ * evaluate('status="active" && title~"pocket"', { status: "active", title: "PocketBase" }); // true
+ *
+ * @param {EvaluableFilter} filter - The filter to evaluate; an empty filter matches every record.
+ * @param {object} record - The record to match, as returned by the SDK.
+ * @param {EvaluationContext} context - The request data and the current time.
+ * @returns {boolean} Whether the record matches the filter.
+ * @throws {FilterParseError} When the filter is not a valid expression.
+ * @throws {PocketbaseQueryError} When the filter references data that is not available locally.
+ */
+export function evaluate(
+  filter: EvaluableFilter,
+  record: Record<string, unknown>,
+  context: EvaluationContext = {}
+): boolean {
+  const node = toFilterNode(filter);
+  return node ? evaluateNode(node, record, { ...context, now: context.now ?? new Date() }) : true;
+}
+
+/**
+ * Turns a filter string, a parameterized filter or an expression tree into an expression tree.
+ *
+ * @param {EvaluableFilter} filter - The filter.
+ * @returns {FilterNode | null} The expression tree, or `null` for an empty filter.
+ * @throws {FilterParseError} When the filter is not a valid expression.
+ */
+export function toFilterNode(filter: EvaluableFilter): FilterNode | null {
+  if (typeof filter === 'string') return parseFilter(filter);
+  if (filter && 'filter' in filter && 'params' in filter && !('type' in filter)) {
+    return parseFilter(
+      replacePlaceholders(filter.filter, filter.params, (_name, value) => serializeValue(value))
+    );
+  }
+  return filter as FilterNode | null;
+}
+
+function evaluateNode(
+  node: FilterNode,
+  record: Record<string, unknown>,
+  context: EvaluationContext
+): boolean {
+  switch (node.type) {
+    case 'condition': {
+      const literal = parseLiteral(node.field);
+      return evaluateCondition(
+        literal ? { values: [literal.value] } : resolveOperand(node.field, record, context),
+        node.operator,
+        node.value instanceof Identifier
+          ? resolveOperand(node.value.name, record, context)
+          : { values: [node.value] }
+      );
+    }
+    case 'raw': {
+      const parsed = parseFilter(renderNode(node, serializeValue));
+      return parsed ? evaluateNode(parsed, record, context) : true;
+    }
+    case 'group':
+      return evaluateNode(node.child, record, context);
+    case 'logical':
+      return node.operator === '&&'
+        ? node.children.every((child) => evaluateNode(child, record, context))
+        : node.children.some((child) => evaluateNode(child, record, context));
+  }
+}
+
+/**
+ * Compares two operands. Empty multiple operands behave like a single empty value,
+ * the way PocketBase's left join does.
+ */
+function evaluateCondition(left: Operand, operator: OperatorType, right: Operand) {
+  const anyItem = operator.startsWith('?') && !left.each;
+  const comparison = operator.replace('?', '') as Comparison;
+  const leftItems = left.values.length ? left.values : [null];
+  const rightItems = right.values.length ? right.values : [null];
+
+  const matches = (item: unknown) =>
+    anyItem
+      ? rightItems.some((other) => compare(item, comparison, other))
+      : rightItems.every((other) => compare(item, comparison, other));
+  return anyItem ? leftItems.some(matches) : leftItems.every(matches);
+}
+
+function compare(left: unknown, comparison: Comparison, right: unknown): boolean {
+  switch (comparison) {
+    case '=':
+      return order(coalesce(left), coalesce(right)) === 0;
+    case '!=':
+      return order(coalesce(left), coalesce(right)) !== 0;
+    case '~':
+      return like(left, right);
+    case '!~':
+      return !like(left, right);
+  }
+
+  if (isNull(left) || isNull(right)) return false;
+  const result = order(left, right);
+  switch (comparison) {
+    case '>':
+      return result > 0;
+    case '>=':
+      return result >= 0;
+    case '<':
+      return result < 0;
+    case '<=':
+      return result <= 0;
+  }
+}
+
+/**
+ * Orders two values, coercing them the way SQLite compares PocketBase columns:
+ * dates as timestamps, numeric strings as numbers, and numbers before text.
+ */
+function order(left: unknown, right: unknown): number {
+  const a = normalize(left);
+  const b = normalize(right);
+
+  if (a instanceof Date || b instanceof Date) {
+    const [x, y] = [toTime(a), toTime(b)];
+    if (!Number.isNaN(x) && !Number.isNaN(y)) return Math.sign(x - y);
+    return order(toText(a), toText(b));
+  }
+  if (typeof a === 'number' && typeof b === 'number') return Math.sign(a - b);
+  if (typeof a === 'number') return isNumeric(b) ? Math.sign(a - Number(b)) : -1;
+  if (typeof b === 'number') return isNumeric(a) ? Math.sign(Number(a) - b) : 1;
+
+  const [x, y] = [toText(a), toText(b)];
+  return x === y ? 0 : x < y ? -1 : 1;
+}
+
+/**
+ * Matches a value against a LIKE pattern, case-insensitively. Without an
+ * unescaped `%`, the pattern is escaped and wrapped in `%` wildcards.
+ */
+function like(value: unknown, pattern: unknown): boolean {
+  const source = likePattern(toText(coalesce(pattern)));
+
+  let regex = '';
+  for (let index = 0; index < source.length; index++) {
+    const char = source[index];
+    if (char === '\\' && index + 1 < source.length) regex += escapeRegExp(source[++index]);
+    else if (char === '%') regex += '.*';
+    else if (char === '_') regex += '.';
+    else regex += escapeRegExp(char);
+  }
+  return new RegExp(`^${regex}$`, 'is').test(toText(coalesce(value)));
+}
+
+/**
+ * Resolves a field path, reference or macro, with its optional modifier.
+ */
+function resolveOperand(
+  name: string,
+  record: Record<string, unknown>,
+  context: EvaluationContext
+): Operand {
+  const [, path, modifier] = MODIFIER_PATTERN.exec(name) ?? [name, name, undefined];
+  const operand = resolvePath(path, record, context);
+
+  switch (modifier) {
+    case 'length':
+      return { values: [operand.values.filter((value) => !isNull(value) && value !== '').length] };
+    case 'each':
+      return { ...operand, each: true };
+    case 'lower':
+      return {
+        ...operand,
+        values: operand.values.map((value) =>
+          typeof value === 'string' ? value.toLowerCase() : value
+        ),
+      };
+    case 'isset':
+    case 'changed': {
+      const field = path.replace(/^@request\.body\./, '');
+      const body = context.request?.body ?? {};
+      const isset = Object.prototype.hasOwnProperty.call(body, field);
+      const changed = isset && order(coalesce(body[field]), coalesce(record[field])) !== 0;
+      return { values: [modifier === 'isset' ? isset : changed] };
+    }
+    default:
+      return operand;
+  }
+}
+
+function resolvePath(
+  path: string,
+  record: Record<string, unknown>,
+  context: EvaluationContext
+): Operand {
+  if (!path.startsWith('@')) return lookup(record, path.split('.'), path);
+
+  const macro = resolveMacro(path, context.now ?? new Date());
+  if (macro !== undefined) return { values: [macro] };
+
+  const [, source, ...rest] = path.split('.');
+  const request = context.request ?? {};
+  if (path.startsWith('@request.')) {
+    switch (source) {
+      case 'context':
+      case 'method':
+        return { values: [request[source] ?? null] };
+      case 'auth':
+      case 'body':
+      case 'query':
+      case 'headers':
+        return lookup(request[source] ?? {}, rest, path);
+    }
+  }
+  throw new PocketbaseQueryError(`Cannot evaluate ${path} locally`);
+}
+
+/**
+ * Reads a dotted path from a record, going through expanded relations.
+ */
+function lookup(target: unknown, segments: string[], path: string): Operand {
+  let values: unknown[] = [target];
+
+  segments.forEach((segment, index) => {
+    const last = index === segments.length - 1;
+    values = values.flatMap((item) => {
+      if (item === null || typeof item !== 'object') return [null];
+      const record = item as Record<string, unknown>;
+      const expanded = (record.expand as Record<string, unknown> | undefined)?.[segment];
+      const value = last ? record[segment] : (expanded ?? record[segment]);
+
+      if (!last && expanded === undefined && isRelationValue(value)) {
+        throw new PocketbaseQueryError(
+          `Cannot evaluate ${path}: the relation ${segment} is not expanded on the record`
+        );
+      }
+      return Array.isArray(value) ? value : [value ?? null];
+    });
+  });
+
+  return { values };
+}
+
+/**
+ * Returns the value of a datetime macro, or `undefined` for other references.
+ */
+function resolveMacro(name: string, now: Date): unknown {
+  const [year, month, day] = [now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()];
+  switch (name) {
+    case '@now':
+      return now;
+    case '@second':
+      return now.getUTCSeconds();
+    case '@minute':
+      return now.getUTCMinutes();
+    case '@hour':
+      return now.getUTCHours();
+    case '@weekday':
+      return now.getUTCDay();
+    case '@day':
+      return day;
+    case '@month':
+      return month + 1;
+    case '@year':
+      return year;
+    case '@yesterday':
+      return new Date(now.getTime() - DAY);
+    case '@tomorrow':
+      return new Date(now.getTime() + DAY);
+    case '@todayStart':
+      return new Date(Date.UTC(year, month, day));
+    case '@todayEnd':
+      return new Date(Date.UTC(year, month, day + 1) - 1);
+    case '@monthStart':
+      return new Date(Date.UTC(year, month, 1));
+    case '@monthEnd':
+      return new Date(Date.UTC(year, month + 1, 1) - 1);
+    case '@yearStart':
+      return new Date(Date.UTC(year, 0, 1));
+    case '@yearEnd':
+      return new Date(Date.UTC(year + 1, 0, 1) - 1);
+  }
+  return undefined;
+}
+
+function isRelationValue(value: unknown) {
+  return (
+    typeof value === 'string' ||
+    (Array.isArray(value) && value.every((item) => typeof item === 'string'))
+  );
+}
+
+function isNull(value: unknown) {
+  return value === null || value === undefined;
+}
+
+function coalesce(value: unknown) {
+  return isNull(value) ? '' : value;
+}
+
+function isNumeric(value: unknown) {
+  return typeof value === 'string' && NUMERIC_PATTERN.test(value);
+}
+
+/**
+ * Stores booleans as numbers, the way SQLite does.
+ */
+function normalize(value: unknown) {
+  return typeof value === 'boolean' ? Number(value) : value;
+}
+
+function toTime(value: unknown) {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === 'string') return Date.parse(value.trim().replace(' ', 'T'));
+  return NaN;
+}
+
+function toText(value: unknown): string {
+  if (value instanceof Date) return Number.isNaN(value.getTime()) ? '' : formatDate(value);
+  if (typeof value === 'string') return value;
+  if (typeof value === 'object' && value !== null) return JSON.stringify(value);
+  return String(normalize(value));
+}
+
+function escapeRegExp(char: string) {
+  return char.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
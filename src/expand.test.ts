@@ -0,0 +1,106 @@
+import { ExpandBuilder, PocketbaseQueryError } from '.';
+
+interface Post {
+  title: string;
+  author: string;
+  tags: string[];
+}
+
+interface Profile {
+  city: string;
+  expand?: { city: { name: string } };
+}
+
+interface User {
+  name: string;
+  profile: string;
+  expand?: { profile: Profile };
+}
+
+interface Comment {
+  text: string;
+  author: string;
+  expand?: { author: User };
+}
+
+interface TypedPost {
+  title: string;
+  author: string;
+  expand?: { author: User; comments_via_post: Comment[] };
+}
+
+describe('ExpandBuilder', () => {
+  test('should expand relation fields', () => {
+    expect(ExpandBuilder.create<Post>().add('author').add('tags').build()).toBe('author,tags');
+  });
+
+  test('should compose nested relations', () => {
+    const expand = ExpandBuilder.create<Post>()
+      .add('author', (author) => author.add('profile', (profile) => profile.add('city')).add('team'))
+      .build();
+    expect(expand).toBe('author.profile.city,author.team');
+  });
+
+  test('should type relations and nested relations from the expand property', () => {
+    const expand = ExpandBuilder.create<TypedPost>()
+      .add('author', (author) => author.add('profile', (profile) => profile.add('city')))
+      .backRelation('comments', 'post', (comments) => comments.add('author'))
+      .build();
+    expect(expand).toBe('author.profile.city,comments_via_post.author');
+
+    const builder = ExpandBuilder.create<TypedPost>();
+    // @ts-expect-error title is not a relation
+    builder.add('title');
+    // @ts-expect-error typo in a nested relation
+    builder.add('author', (author) => author.add('profle'));
+    // @ts-expect-error comments have no profile relation
+    builder.add('comments_via_post', (comments) => comments.add('profile'));
+  });
+
+  test('should expand back-relations', () => {
+    const expand = ExpandBuilder.create<Post>()
+      .backRelation('comments', 'post', (comments) => comments.add('author'))
+      .build();
+    expect(expand).toBe('comments_via_post.author');
+  });
+
+  test('should accept dotted paths', () => {
+    expect(ExpandBuilder.create<Post>().path('comments_via_post.author').build()).toBe(
+      'comments_via_post.author'
+    );
+  });
+
+  test('should remove duplicate and overlapping paths', () => {
+    const expand = ExpandBuilder.create<Post>()
+      .add('author')
+      .path('author.profile')
+      .add('tags')
+      .add('tags')
+      .add('author', (author) => author.add('profile'))
+      .build();
+    expect(expand).toBe('author.profile,tags');
+  });
+
+  test('should expand the relation itself when the callback adds nothing', () => {
+    expect(ExpandBuilder.create<Post>().add('author', () => undefined).build()).toBe('author');
+  });
+
+  test('should enforce the 6-level nesting limit', () => {
+    expect(ExpandBuilder.create<any>().path('a.b.c.d.e.f').build()).toBe('a.b.c.d.e.f');
+    expect(() => ExpandBuilder.create<any>().path('a.b.c.d.e.f.g')).toThrow(
+      'Expand path a.b.c.d.e.f.g exceeds the maximum depth of 6 relations'
+    );
+    expect(() =>
+      ExpandBuilder.create<any>().add('a', (a) =>
+        a.add('b', (b) => b.add('c', (c) => c.add('d', (d) => d.add('e', (e) => e.add('f', (f) => f.add('g'))))))
+      )
+    ).toThrow(PocketbaseQueryError);
+  });
+
+  test('should reject invalid relation names', () => {
+    expect(() => ExpandBuilder.create<any>().path('author,id')).toThrow(
+      'Invalid expand relation: "author,id"'
+    );
+    expect(() => ExpandBuilder.create<any>().path('author..profile')).toThrow(PocketbaseQueryError);
+  });
+});
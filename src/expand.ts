@@ -0,0 +1,155 @@
+import { PocketbaseQueryError } from './errors';
+import { RelatedRecord, Relations } from './paths';
+
+/**
+ * The maximum number of nested relations PocketBase expands in a single path.
+ */
+export const MAX_EXPAND_DEPTH = 6;
+
+const RELATION_PATTERN = /^\w+$/;
+
+/**
+ * The relations of `T` that can be expanded: the keys of its `expand` property,
+ * or any field when `T` does not describe its relations.
+ */
+export type ExpandRelation<T> = 0 extends 1 & T
+  ? string
+  : [Relations<T>] extends [never]
+    ? Extract<keyof T, string>
+    : Extract<keyof Relations<T>, string>;
+
+/**
+ * The record type of the relation `K` of `T`, untyped when `T` does not describe it.
+ */
+export type ExpandedRecord<T, K extends string> = 0 extends 1 & T
+  ? any
+  : [Relations<T>] extends [never]
+    ? any
+    : K extends keyof Relations<T>
+      ? RelatedRecord<Relations<T>[K]>
+      : any;
+
+/**
+ * Receives a builder for the relations of an expanded record of type `T`.
+ */
+export type ExpandCallback<T = any> = (expand: ExpandBuilder<T>) => ExpandBuilder<T> | void;
+
+/**
+ * Builds the `expand` parameter of PocketBase requests, e.g. `author,comments_via_post.author`.
+ *
+ * Relations are typed from the `expand` property of `T`, the way the PocketBase SDK
+ * types expanded records, and so are the builders of nested relations.
+ * Nested relations are composed with callbacks, back-relations are written as
+ * `<collection>_via_<field>`, overlapping paths are merged and paths deeper than
+ * {@link MAX_EXPAND_DEPTH} levels are rejected.
+ *
+ * @example
+ * const expand = ExpandBuilder.create<Post>()
+ *   .add("author", (author) => author.add("profile"))
+ *   .backRelation("comments", "post", (comments) => comments.add("author"))
+ *   .build();
+ * // author.profile,comments_via_post.author
+ */
+export class ExpandBuilder<T> {
+  private readonly paths: string[][] = [];
+
+  /**
+   * Creates a new expand builder.
+   *
+   * @returns {ExpandBuilder<T>} A new expand builder.
+   */
+  static create<T>(): ExpandBuilder<T> {
+    return new ExpandBuilder<T>();
+  }
+
+  /**
+   * Expands a relation field, and optionally relations of the expanded record.
+   *
+   * @param {ExpandRelation<T>} field - The relation field to expand.
+   * @param {ExpandCallback} nested - Receives a builder for the relations of the expanded record.
+   * @returns {ExpandBuilder<T>} The current instance for chaining.
+   * @throws {PocketbaseQueryError} When the field name is invalid or the nesting is too deep.
+   */
+  add<K extends ExpandRelation<T>>(field: K, nested?: ExpandCallback<ExpandedRecord<T, K>>) {
+    return this.addRelation(field, nested);
+  }
+
+  /**
+   * Expands the records of another collection that reference this record,
+   * rendered as `<collection>_via_<field>`.
+   *
+   * @param {string} collection - The collection holding the relation field.
+   * @param {string} field - The relation field pointing back to this record.
+   * @param {ExpandCallback} nested - Receives a builder for the relations of the expanded records.
+   * @returns {ExpandBuilder<T>} The current instance for chaining.
+   * @throws {PocketbaseQueryError} When a name is invalid or the nesting is too deep.
+   */
+  backRelation<C extends string, F extends string>(
+    collection: C,
+    field: F,
+    nested?: ExpandCallback<ExpandedRecord<T, `${C}_via_${F}`>>
+  ) {
+    return this.addRelation(`${collection}_via_${field}`, nested);
+  }
+
+  /**
+   * Expands a dotted relation path as-is, e.g. `comments_via_post.author`.
+   *
+   * @param {string} path - The dotted relation path.
+   * @returns {ExpandBuilder<T>} The current instance for chaining.
+   * @throws {PocketbaseQueryError} When a segment is invalid or the path is too deep.
+   */
+  path(path: string) {
+    this.push(path.split('.'));
+    return this;
+  }
+
+  /**
+   * Builds the comma-separated expand string.
+   * Duplicate paths and paths already covered by a deeper one (`author` by
+   * `author.profile`) are removed, since PocketBase expands every level of a path.
+   *
+   * @returns {string} The expand string, or an empty string when nothing was added.
+   */
+  build() {
+    const paths = this.paths.map((segments) => segments.join('.'));
+    return paths
+      .filter(
+        (path, index) =>
+          paths.indexOf(path) === index && !paths.some((other) => other.startsWith(`${path}.`))
+      )
+      .join(',');
+  }
+
+  /**
+   * Adds a relation and the paths built for its nested relations.
+   */
+  private addRelation(relation: string, nested?: ExpandCallback<any>) {
+    if (!nested) {
+      this.push([relation]);
+      return this;
+    }
+
+    const builder = new ExpandBuilder<any>();
+    const { paths } = nested(builder) ?? builder;
+    if (!paths.length) this.push([relation]);
+    paths.forEach((segments) => this.push([relation, ...segments]));
+    return this;
+  }
+
+  /**
+   * Validates and records a path.
+   */
+  private push(segments: string[]) {
+    const invalid = segments.find((segment) => !RELATION_PATTERN.test(segment));
+    if (invalid !== undefined) {
+      throw new PocketbaseQueryError(`Invalid expand relation: ${JSON.stringify(invalid)}`);
+    }
+    if (segments.length > MAX_EXPAND_DEPTH) {
+      throw new PocketbaseQueryError(
+        `Expand path ${segments.join('.')} exceeds the maximum depth of ${MAX_EXPAND_DEPTH} relations`
+      );
+    }
+    this.paths.push(segments);
+  }
+}
@@ -0,0 +1,115 @@
+import { FieldsBuilder, FieldsResult, PocketbaseQueryError } from '.';
+
+interface Team {
+  name: string;
+}
+
+interface User {
+  name: string;
+  bio: string;
+  team: string;
+  expand?: { team?: Team };
+}
+
+interface Comment {
+  text: string;
+  likes: number;
+}
+
+interface Post {
+  id: string;
+  title: string;
+  description: string;
+  views: number;
+  author: string;
+  expand?: { author?: User; comments_via_post?: Comment[] };
+}
+
+describe('FieldsBuilder', () => {
+  test('should select record fields', () => {
+    expect(FieldsBuilder.create<Post>().pick('id', 'title').build()).toBe('id,title');
+  });
+
+  test('should select every field with the wildcard', () => {
+    expect(FieldsBuilder.create<Post>().all().expand('author', ['name']).build()).toBe(
+      '*,expand.author.name'
+    );
+  });
+
+  test('should render the excerpt modifier', () => {
+    const fields = FieldsBuilder.create<Post>()
+      .excerpt('description', 200, true)
+      .excerpt('title', 20)
+      .build();
+    expect(fields).toBe('description:excerpt(200,true),title:excerpt(20)');
+  });
+
+  test('should select fields of expanded relations', () => {
+    const fields = FieldsBuilder.create<Post>()
+      .pick('id')
+      .expand('author', (author: FieldsBuilder<User>) =>
+        author.pick('name').excerpt('bio', 50).expand('team', ['*'])
+      )
+      .build();
+    expect(fields).toBe('id,expand.author.name,expand.author.bio:excerpt(50),expand.author.expand.team.*');
+  });
+
+  test('should ignore duplicate fields', () => {
+    expect(FieldsBuilder.create<Post>().pick('id', 'title').pick('id').build()).toBe('id,title');
+  });
+
+  test('should validate excerpt arguments', () => {
+    expect(() => FieldsBuilder.create<Post>().excerpt('description', 0)).toThrow(
+      'Excerpt length of description must be a positive integer, got 0'
+    );
+    expect(() => FieldsBuilder.create<Post>().excerpt('description', 1.5)).toThrow(PocketbaseQueryError);
+    expect(() => FieldsBuilder.create<Post>().excerpt('description', 10, 'yes' as any)).toThrow(
+      PocketbaseQueryError
+    );
+  });
+
+  test('should reject invalid names and empty expand selections', () => {
+    expect(() => FieldsBuilder.create<any>().pick('id,title')).toThrow('Invalid field name: "id,title"');
+    expect(() => FieldsBuilder.create<Post>().expand('author', [])).toThrow(
+      'No fields selected for the expanded relation author'
+    );
+  });
+
+  test('should narrow the result type to the selected fields', () => {
+    const fields = FieldsBuilder.create<Post>()
+      .pick('id', 'views')
+      .expand('author', (author) => author.pick('name'))
+      .expand('comments_via_post', ['text']);
+    const row: FieldsResult<typeof fields> = {
+      id: 'a',
+      views: 1,
+      expand: { author: { name: 'b' }, comments_via_post: [{ text: 'c' }] },
+    };
+
+    expect(fields.build()).toBe('id,views,expand.author.name,expand.comments_via_post.text');
+    // @ts-expect-error title was not selected
+    expect(row.title).toBeUndefined();
+    // @ts-expect-error likes was not selected
+    expect(row.expand.comments_via_post[0].likes).toBeUndefined();
+    const name: string = row.expand.author.name;
+    expect(name).toBe('b');
+  });
+
+  test('should check relations and their fields against the expand property', () => {
+    const fields = FieldsBuilder.create<Post>();
+
+    // @ts-expect-error autor is not a relation of posts
+    expect(() => fields.expand('autor', ['name'])).not.toThrow();
+    // @ts-expect-error nmae is not a field of users
+    expect(() => fields.expand('author', ['nmae'])).not.toThrow();
+    // @ts-expect-error nmae is not a field of users
+    expect(() => fields.expand('author', (author) => author.pick('nmae'))).not.toThrow();
+  });
+
+  test('should accept any field of an untyped relation', () => {
+    const fields = FieldsBuilder.create<Omit<Post, 'expand'>>().expand('author', (author) =>
+      author.pick('name')
+    );
+    expect(fields.build()).toBe('expand.author.name');
+  });
+});
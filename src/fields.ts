@@ -0,0 +1,172 @@
+import { PocketbaseQueryError } from './errors';
+import { ExpandedRecord, ExpandRelation } from './expand';
+import { Relations } from './paths';
+
+/**
+ * The fields of `T` holding a string value.
+ */
+export type StringFields<T> = {
+  [K in keyof T]-?: T[K] extends string | null | undefined ? K : never;
+}[keyof T] &
+  string;
+
+/**
+ * The fields of an expanded record selected by name, every field for the `*` wildcard.
+ */
+type Selected<R, F extends string> = '*' extends F ? R : Pick<R, Extract<F, keyof R>>;
+
+/**
+ * The value of the relation `K` of `T` in the returned records: a list for multiple relations.
+ */
+type ExpandedValue<T, K extends string, V> = K extends keyof Relations<T>
+  ? NonNullable<Relations<T>[K]> extends readonly unknown[]
+    ? V[]
+    : V
+  : V;
+
+const FIELD_PATTERN = /^(\w+|\*)$/;
+
+/**
+ * Builds the `fields` parameter of PocketBase requests, e.g.
+ * `id,title,expand.author.name,description:excerpt(200,true)`.
+ *
+ * The second type parameter tracks the selected fields, so the shape of the
+ * returned records can be derived with {@link FieldsResult}.
+ *
+ * @example
+ * const fields = FieldsBuilder.create<Post>()
+ *   .pick("id", "title")
+ *   .excerpt("description", 200, true)
+ *   .expand("author", (author) => author.pick("name"));
+ *
+ * fields.build(); // id,title,description:excerpt(200,true),expand.author.name
+ * type Row = FieldsResult<typeof fields>;
+ * // { id: string; title: string; description: string; expand: { author: { name: string } } }
+ */
+export class FieldsBuilder<T, S = unknown> {
+  private readonly fields: string[] = [];
+
+  /**
+   * Creates a new fields builder.
+   *
+   * @returns {FieldsBuilder<T>} A new fields builder.
+   */
+  static create<T>(): FieldsBuilder<T> {
+    return new FieldsBuilder<T>();
+  }
+
+  /**
+   * Selects fields of the record.
+   *
+   * @param {...K[]} fields - The fields to select.
+   * @returns {FieldsBuilder<T>} The current instance for chaining.
+   * @throws {PocketbaseQueryError} When a field name is invalid.
+   */
+  pick<K extends Extract<keyof T, string>>(...fields: K[]): FieldsBuilder<T, S & Pick<T, K>> {
+    fields.forEach((field) => this.add(validateField(field)));
+    return this as FieldsBuilder<T, S & Pick<T, K>>;
+  }
+
+  /**
+   * Selects every field of the record with the `*` wildcard.
+   *
+   * @returns {FieldsBuilder<T>} The current instance for chaining.
+   */
+  all(): FieldsBuilder<T, S & T> {
+    this.add('*');
+    return this as FieldsBuilder<T, S & T>;
+  }
+
+  /**
+   * Selects a text field shortened with the `:excerpt(maxLength, withEllipsis)` modifier.
+   * HTML tags are stripped by PocketBase and the text is cut to `maxLength` characters.
+   *
+   * @param {K} field - The text field to shorten.
+   * @param {number} maxLength - The maximum number of characters, a positive integer.
+   * @param {boolean} withEllipsis - Whether to append `...` to shortened texts.
+   * @returns {FieldsBuilder<T>} The current instance for chaining.
+   * @throws {PocketbaseQueryError} When the field name or the arguments are invalid.
+   */
+  excerpt<K extends StringFields<T>>(
+    field: K,
+    maxLength: number,
+    withEllipsis = false
+  ): FieldsBuilder<T, S & Pick<T, K>> {
+    if (!Number.isInteger(maxLength) || maxLength <= 0) {
+      throw new PocketbaseQueryError(
+        `Excerpt length of ${field} must be a positive integer, got ${maxLength}`
+      );
+    }
+    if (typeof withEllipsis !== 'boolean') {
+      throw new PocketbaseQueryError(`Excerpt withEllipsis of ${field} must be a boolean`);
+    }
+
+    const args = withEllipsis ? `${maxLength},true` : `${maxLength}`;
+    this.add(`${validateField(field)}:excerpt(${args})`);
+    return this as FieldsBuilder<T, S & Pick<T, K>>;
+  }
+
+  /**
+   * Selects fields of an expanded relation, rendered as `expand.<relation>.<field>`.
+   * The relation must also be listed in the `expand` parameter of the request.
+   * Relations and their fields are typed from the `expand` property of `T`, like
+   * {@link ExpandBuilder.add}.
+   *
+   * @param {ExpandRelation<T>} relation - The expanded relation, e.g. `author` or `comments_via_post`.
+   * @param {string[] | Function} select - The fields to select, or a callback receiving a builder for the related record.
+   * @returns {FieldsBuilder<T>} The current instance for chaining.
+   * @throws {PocketbaseQueryError} When a name is invalid or nothing was selected.
+   */
+  expand<K extends ExpandRelation<T>, F extends Extract<keyof ExpandedRecord<T, K>, string> | '*'>(
+    relation: K,
+    select: F[]
+  ): FieldsBuilder<
+    T,
+    S & { expand: { [P in K]: ExpandedValue<T, K, Selected<ExpandedRecord<T, K>, F>> } }
+  >;
+  expand<K extends ExpandRelation<T>, RS>(
+    relation: K,
+    select: (
+      fields: FieldsBuilder<ExpandedRecord<T, K>>
+    ) => FieldsBuilder<ExpandedRecord<T, K>, RS>
+  ): FieldsBuilder<T, S & { expand: { [P in K]: ExpandedValue<T, K, RS> } }>;
+  expand(relation: string, select: string[] | ((fields: FieldsBuilder<any>) => FieldsBuilder<any, any>)) {
+    const nested = Array.isArray(select)
+      ? FieldsBuilder.create<any>().pick(...select)
+      : select(FieldsBuilder.create<any>());
+
+    if (!nested.fields.length) {
+      throw new PocketbaseQueryError(`No fields selected for the expanded relation ${relation}`);
+    }
+    nested.fields.forEach((field) => this.add(`expand.${validateField(relation)}.${field}`));
+    return this;
+  }
+
+  /**
+   * Builds the comma-separated fields string, without duplicates.
+   *
+   * @returns {string} The fields string, or an empty string when nothing was selected.
+   */
+  build() {
+    return this.fields.join(',');
+  }
+
+  /**
+   * Records a selected field, ignoring duplicates.
+   */
+  private add(field: string) {
+    if (!this.fields.includes(field)) this.fields.push(field);
+  }
+}
+
+/**
+ * The shape of the records returned for the fields selected by a {@link FieldsBuilder}.
+ */
+export type FieldsResult<B> = B extends FieldsBuilder<any, infer S> ? S : never;
+
+function validateField(field: string) {
+  if (!FIELD_PATTERN.test(field)) {
+    throw new PocketbaseQueryError(`Invalid field name: ${JSON.stringify(field)}`);
+  }
+  return field;
+}
@@ -0,0 +1,157 @@
+import PocketbaseQuery, { fragment, PocketbaseQueryError } from '.';
+
+interface Post {
+  title: string;
+  status: string;
+  deleted: boolean;
+  public: boolean;
+  owner: string;
+  tenant: string;
+  views: number;
+}
+
+const notTrashed = fragment<Post>('notTrashed', (query) => query.equal('deleted', false));
+const visibleTo = fragment('visibleTo', (query: PocketbaseQuery<Post>, userId: string) =>
+  query.equal('public', true).or().equal('owner', userId)
+);
+const tenant = fragment<Post>('tenant', (query) => query.equal('tenant', 't1'));
+
+describe('Fragments', () => {
+  test('should apply a fragment like a condition', () => {
+    const filter = PocketbaseQuery.create<Post>()
+      .apply(notTrashed)
+      .and()
+      .equal('status', 'published')
+      .build();
+
+    expect(filter).toBe('deleted=false && status="published"');
+  });
+
+  test('should pass parameters and group fragments mixing operators', () => {
+    const query = PocketbaseQuery.create<Post>()
+      .equal('status', 'published')
+      .and()
+      .apply(visibleTo, 'u1');
+
+    expect(query.build()).toBe('status="published" && (public=true || owner="u1")');
+    expect(
+      PocketbaseQuery.create<Post>().apply(visibleTo, 'u1').or().apply(notTrashed).build()
+    ).toBe('public=true || owner="u1" || deleted=false');
+  });
+
+  test('should report fragments without conditions', () => {
+    const empty = fragment<Post>('search', (query) => query.like('title', ''));
+    const query = PocketbaseQuery.create<Post>().apply(empty);
+
+    expect(query.getWarnings().map((issue) => [issue.code, issue.call])).toEqual([
+      ['EMPTY_VALUE', 'like("title", "")'],
+      ['EMPTY_GROUP', 'apply(search)'],
+    ]);
+    expect(query.build()).toBe('');
+  });
+
+  test('should apply fragments and scopes without a return value in immutable mode', () => {
+    const ownTenant = fragment<Post>('ownTenant', (query) => {
+      query.equal('tenant', 't1');
+    });
+    const published = fragment<Post>('published', (query) => {
+      query.equal('status', 'published');
+    });
+    const posts = PocketbaseQuery.factory<Post>({ immutable: true, scopes: [ownTenant] });
+
+    expect(posts.create().apply(published).build()).toBe('tenant="t1" && status="published"');
+  });
+
+  test('should reject fragments without a name', () => {
+    expect(() => fragment(' ', (query) => query)).toThrow(PocketbaseQueryError);
+  });
+});
+
+describe('Builder Composition', () => {
+  const published = () => PocketbaseQuery.create<Post>().equal('status', 'published');
+  const mine = () => PocketbaseQuery.create<Post>().equal('owner', 'u1').or().equal('public', true);
+
+  test('should combine builders with and, grouping their || filters', () => {
+    expect(PocketbaseQuery.and(published(), mine()).build()).toBe(
+      'status="published" && (owner="u1" || public=true)'
+    );
+  });
+
+  test('should combine builders with or', () => {
+    const drafts = PocketbaseQuery.create<Post>().equal('status', 'draft');
+    const combined = PocketbaseQuery.or(drafts, PocketbaseQuery.and(published(), mine()));
+
+    expect(combined.and().greaterThan('views', 10).build()).toBe(
+      '(status="draft" || status="published" && (owner="u1" || public=true)) && views>10'
+    );
+  });
+
+  test('should leave the combined builders untouched and skip empty ones', () => {
+    const base = published();
+
+    expect(PocketbaseQuery.and(base, PocketbaseQuery.create<Post>()).build()).toBe(
+      'status="published"'
+    );
+    expect(base.build()).toBe('status="published"');
+    expect(PocketbaseQuery.or<Post>().build()).toBe('');
+  });
+});
+
+describe('Default Scopes', () => {
+  const posts = PocketbaseQuery.factory<Post>({ scopes: [tenant, notTrashed] });
+
+  test('should AND the scopes into every build', () => {
+    expect(posts.create().equal('status', 'published').build()).toBe(
+      'tenant="t1" && deleted=false && status="published"'
+    );
+    expect(posts.create().build()).toBe('tenant="t1" && deleted=false');
+    expect(posts.parse('status="a" || status="b"').build()).toBe(
+      'tenant="t1" && deleted=false && (status="a" || status="b")'
+    );
+  });
+
+  test('should keep the scopes after a build resets the builder', () => {
+    const query = posts.create();
+    query.equal('status', 'a').build();
+
+    expect(query.equal('status', 'b').build()).toBe('tenant="t1" && deleted=false && status="b"');
+  });
+
+  test('should opt out of some or every scope', () => {
+    expect(posts.create().unscoped('tenant').equal('status', 'a').build()).toBe(
+      'deleted=false && status="a"'
+    );
+    expect(posts.create().unscoped().equal('status', 'a').build()).toBe('status="a"');
+    expect(() => posts.create().unscoped('tennant')).toThrow(
+      'Unknown scope: tennant; the builder has tenant, notTrashed'
+    );
+  });
+
+  test('should merge the scopes passed to the factory methods', () => {
+    const archived = fragment<Post>('archived', (query) => query.equal('status', 'archived'));
+
+    expect(posts.create({ scopes: [archived] }).build()).toBe(
+      'tenant="t1" && deleted=false && status="archived"'
+    );
+  });
+
+  test('should not repeat the scopes inside groups and fragments', () => {
+    const filter = posts
+      .create()
+      .group((query) => query.equal('status', 'a').or().equal('status', 'b'))
+      .and()
+      .apply(visibleTo, 'u1')
+      .build();
+
+    expect(filter).toBe(
+      'tenant="t1" && deleted=false && (status="a" || status="b") && (public=true || owner="u1")'
+    );
+  });
+
+  test('should apply the scopes when evaluating and compiling', () => {
+    const query = posts.create().equal('status', 'a');
+
+    expect(query.matches({ tenant: 't2', deleted: false, status: 'a' })).toBe(false);
+    expect(query.toSQLite().bindings).toEqual(['t1', 0, 'a']);
+  });
+});
@@ -0,0 +1,39 @@
+import type PocketbaseQuery from '.';
+import { PocketbaseQueryError } from './errors';
+
+/**
+ * A named, reusable set of conditions, added to a query with `apply()` or
+ * registered as a default scope. The arguments after the builder are the
+ * parameters passed to `apply()`.
+ */
+export interface Fragment<T, A extends unknown[] = []> {
+  readonly name: string;
+  readonly build: (query: PocketbaseQuery<T>, ...args: A) => PocketbaseQuery<T> | void;
+}
+
+/**
+ * Defines a reusable fragment of a filter.
+ *
+ * @example
+ * const notTrashed = fragment<Post>("notTrashed", (query) => query.equal("deleted", false));
+ * const visibleTo = fragment("visibleTo", (query: PocketbaseQuery<Post>, userId: string) =>
+ *   query.equal("public", true).or().equal("owner", userId)
+ * );
+ *
+ * query.apply(notTrashed).and().apply(visibleTo, userId).build();
+ * // deleted=false && (public=true || owner="...")
+ *
+ * @param {string} name - The name of the fragment, used in issue messages and to opt out of scopes.
+ * @param {Function} build - Adds the conditions of the fragment to the builder it receives.
+ * @returns {Fragment<T, A>} The fragment.
+ * @throws {PocketbaseQueryError} When the name is empty.
+ */
+export function fragment<T = any, A extends unknown[] = []>(
+  name: string,
+  build: (query: PocketbaseQuery<T>, ...args: A) => PocketbaseQuery<T> | void
+): Fragment<T, A> {
+  if (!name.trim()) {
+    throw new PocketbaseQueryError('Fragments must have a name');
+  }
+  return { name, build };
+}
@@ -1,38 +1,269 @@
-enum OperatorEnum {
-  Equal = "=",
-  NotEqual = "!=",
-  GreaterThan = ">",
-  GreaterThanOrEqual = ">=",
-  LessThan = "<",
-  LessThanOrEqual = "<=",
-  Like = "~",
-  NotLike = "!~",
-  AnyEqual = "?=",
-  AnyNotEqual = "?!=",
-  AnyGreaterThan = "?>",
-  AnyGreaterThanOrEqual = "?>=",
-  AnyLessThan = "?<",
-  AnyLessThanOrEqual = "?<=",
-  AnyLike = "?~",
-  AnyNotLike = "?!~",
+import {
+  and,
+  combineNodes,
+  ConditionNode,
+  FilterNode,
+  GroupNode,
+  JoinedNode,
+  LogicalNode,
+  RawNode,
+  renderNode,
+} from "./ast";
+import { CanonicalFilter, canonicalize, normalize } from "./canonical";
+import { GenerateTypesOptions, generateTypes } from "./codegen";
+import {
+  DateMacro,
+  DateMacroName,
+  DateRange,
+  dayRange,
+  Duration,
+  startOfDay,
+  subtractDuration,
+} from "./dates";
+import { EvaluableFilter, evaluate, EvaluationContext } from "./evaluate";
+import {
+  createIssueError,
+  DanglingOperatorError,
+  EmptyGroupError,
+  EmptyValueError,
+  FilterParseError,
+  PocketbaseQueryError,
+  QueryIssue,
+  QueryIssueCode,
+  QueryValidationError,
+  SchemaValidationError,
+  UnbalancedBracketError,
+} from "./errors";
+import {
+  ExpandBuilder,
+  ExpandCallback,
+  ExpandedRecord,
+  ExpandRelation,
+  MAX_EXPAND_DEPTH,
+} from "./expand";
+import { FieldsBuilder, FieldsResult, StringFields } from "./fields";
+import { Fragment, fragment } from "./fragments";
+import {
+  assertPage,
+  assertPerPage,
+  ListOptions,
+  MAX_PER_PAGE,
+  validateListOptions,
+} from "./list-options";
+import { negate, NegateOptions } from "./negate";
+import { LogicalOperator, OperatorEnum, OperatorType } from "./operators";
+import { parseFilter, parseLiteral } from "./parser";
+import {
+  ArrayPath,
+  ComparableValue,
+  EmptyCheckArgs,
+  EmptyCheckOptions,
+  FieldOperand,
+  OperandValue,
+  PathValue,
+  Relations,
+  TextPath,
+  ValidPath,
+} from "./paths";
+import {
+  assertRuleOperand,
+  collection,
+  ref,
+  Reference,
+  ReferenceModifier,
+  request,
+} from "./rules";
+import {
+  QuerySchema,
+  resolveCollection,
+  SchemaCollection,
+  SchemaField,
+  validateSchema,
+} from "./schema";
+import {
+  DeserializeOptions,
+  deserializeQuery,
+  QUERY_JSON_VERSION,
+  SerializedNode,
+  SerializedQuery,
+  SerializedValue,
+  serializeQuery,
+} from "./serialize";
+import { SortBuilder, SortDirection, SortField } from "./sort";
+import { SQLiteBinding, SQLiteOptions, SQLiteWhere, toSQLite } from "./sqlite";
+import {
+  FilterParams,
+  FilterValue,
+  Identifier,
+  identifier,
+  replacePlaceholders,
+  serializeValue,
+} from "./values";
+
+interface Expression {
+  field: string | Identifier;
+  operator: OperatorType;
+  value: unknown;
 }
 
-type OperatorType = `${OperatorEnum}`;
+/**
+ * An expression tree along with the issues found while building it.
+ */
+interface CollectedFilter {
+  ast: FilterNode | null;
+  issues: QueryIssue[];
+}
 
-interface Expression<T> {
-  field: keyof T;
-  operator: OperatorType;
-  value: any;
+/**
+ * Options accepted by {@link PocketbaseQuery.build}.
+ */
+interface BuildOptions {
+  /**
+   * When `true`, values are emitted as `{:name}` placeholders and returned
+   * separately, ready to be passed to the SDK's `pb.filter()`.
+   */
+  params?: boolean;
 }
 
+/**
+ * The result of building a query in parameter mode.
+ */
+interface ParameterizedFilter {
+  filter: string;
+  params: FilterParams;
+}
+
+/**
+ * How conditions with an empty value are handled, see {@link QueryOptions.emptyValues}.
+ */
+type EmptyValuePolicy = "skip" | "throw" | "null";
+
+/**
+ * Options accepted by {@link PocketbaseQuery.create}.
+ */
+interface QueryOptions<T = any> {
+  /**
+   * When `true`, every chained call returns a new builder and leaves the
+   * current one untouched, so a base query can be reused safely.
+   */
+  immutable?: boolean;
+  /**
+   * When `true`, `build()` throws a {@link QueryValidationError} for dangling
+   * operators, empty groups and conditions skipped for an empty value, instead
+   * of silently dropping them, and for conditions that do not match the schema.
+   */
+  strict?: boolean;
+  /**
+   * Called by `build()` in lenient mode for every problem that was silently repaired.
+   */
+  onWarning?: (issue: QueryIssue) => void;
+  /**
+   * What to do with conditions whose value is `""` or `undefined`
+   * (or `null` in a list of values passed to `in()` and the like, or an empty list):
+   * - `"skip"` (default) drops the condition, reported as a warning, or thrown by `build()` in strict mode;
+   * - `"throw"` throws an {@link EmptyValueError} right away;
+   * - `"null"` compares the field against `null` instead; an empty list passed to `in()`,
+   *   `anyIn()` or `likeAny()` matches no record, and one passed to `notIn()` or `anyNotIn()` every record.
+   */
+  emptyValues?: EmptyValuePolicy;
+  /**
+   * When `true`, the builder authors API rules: string operands starting with `@`
+   * are rejected instead of being quoted, and parameter mode is unavailable.
+   * Set by {@link PocketbaseQuery.rule}.
+   */
+  rule?: boolean;
+  /**
+   * The collection the query filters and the collections exported from PocketBase
+   * (`pb_schema.json`). `build()` then checks every condition against the schema,
+   * see {@link validateSchema}, and reports mismatches like the other issues.
+   */
+  schema?: QuerySchema;
+  /**
+   * Fragments ANDed into the filter of every build, e.g. a tenant filter, usually
+   * registered once with {@link PocketbaseQuery.factory}. Opt out with `unscoped()`.
+   */
+  scopes?: Fragment<T>[];
+}
+
+/**
+ * Creates builders sharing default options and scopes, see {@link PocketbaseQuery.factory}.
+ */
+interface QueryFactory<T> {
+  create(options?: QueryOptions<T>): PocketbaseQuery<T>;
+  parse(filter: string, options?: QueryOptions<T>): PocketbaseQuery<T>;
+  fromJSON(json: unknown, options?: QueryOptions<T> & DeserializeOptions): PocketbaseQuery<T>;
+}
+
+/**
+ * A logical operator waiting for the expression on its right-hand side.
+ */
+interface PendingJoin {
+  operator: LogicalOperator;
+  /** The builder call that added the operator, e.g. `and()`. */
+  call: string;
+}
+
+/**
+ * The expressions collected between an `openBracket()` and its `closeBracket()`,
+ * or at the top level of the query.
+ */
+interface QueryFrame {
+  entries: JoinedNode[];
+  /** The logical operator waiting for the next expression of this frame. */
+  pendingJoin: PendingJoin | null;
+  /** The parent's pending operator when this frame was opened. */
+  openingJoin: PendingJoin | null;
+  /** The builder call that opened the frame. */
+  call: string;
+}
+
+const createFrame = (call = "", openingJoin: PendingJoin | null = null): QueryFrame => ({
+  entries: [],
+  pendingJoin: null,
+  openingJoin,
+  call,
+});
+
+const describeArgument = (value: unknown): string => {
+  if (value === undefined) return "undefined";
+  if (value instanceof Identifier) return value.name;
+  if (Array.isArray(value)) return `[${value.map(describeArgument).join(", ")}]`;
+  return JSON.stringify(value);
+};
+
+/**
+ * Describes a logical operator that no expression followed.
+ */
+const danglingJoinIssue = ({ call }: PendingJoin): QueryIssue => ({
+  code: "DANGLING_OPERATOR",
+  call,
+  message: "has no expression after it",
+});
+
+/**
+ * Formats a builder call for issue messages, e.g. `equal("status", "")`.
+ */
+const describeCall = (method: string, ...args: unknown[]) =>
+  `${method}(${args.map(describeArgument).join(", ")})`;
+
 class PocketbaseQuery<T> {
-  private query: string;
   private static instance: PocketbaseQuery<any>;
+  private readonly options: QueryOptions<T>;
   private lastQueryValue: string;
+  private frames: QueryFrame[];
+  private issues: QueryIssue[];
+  private listOptions: Omit<ListOptions, "filter">;
+  /** The names of the scopes opted out of with `unscoped()`. */
+  private disabledScopes: string[];
 
-  constructor() {
-    this.query = "";
+  constructor(options: QueryOptions<T> = {}) {
+    if (options.schema) resolveCollection(options.schema);
+    this.options = { ...options };
     this.lastQueryValue = "";
+    this.frames = [createFrame()];
+    this.issues = [];
+    this.listOptions = {};
+    this.disabledScopes = [];
   }
 
 /**
@@ -40,21 +271,279 @@ class PocketbaseQuery<T> {
  * If the instance does not exist, it creates a new one.
  * Resets the query string of the instance before returning it.
  *
+ * The instance is shared by every caller, so queries built concurrently
+ * (e.g. across requests on a server, or with an `await` between chained calls)
+ * overwrite each other. Prefer {@link PocketbaseQuery.create} in that case.
+ *
  * @returns {PocketbaseQuery<T>} The singleton instance of the query builder.
  */
   public static getInstance<T>(): PocketbaseQuery<T> {
     if (!PocketbaseQuery.instance) {
       PocketbaseQuery.instance = new PocketbaseQuery<T>();
     }
-    PocketbaseQuery.instance.query = "";
-    PocketbaseQuery.instance.lastQueryValue = "";
+    PocketbaseQuery.instance.reset();
     return PocketbaseQuery.instance;
   }
 
+  /**
+   * Creates a new, independent query builder.
+   * Unlike {@link PocketbaseQuery.getInstance}, every call returns its own instance,
+   * so concurrent queries never share state.
+   *
+   * @example
+   * const base = PocketbaseQuery.create<Post>({ immutable: true }).equal("status", "published");
+   * const mine = base.and().equal("author", userId).build();
+   * const popular = base.and().greaterThan("views", 100).build();
+   *
+   * @param {QueryOptions} options - Builder options.
+   * @returns {PocketbaseQuery<T>} A new query builder.
+   */
+  public static create<T>(options: QueryOptions<T> = {}): PocketbaseQuery<T> {
+    return new PocketbaseQuery<T>(options);
+  }
+
+  /**
+   * Parses an existing PocketBase filter string into a new query builder.
+   * The parsed expression becomes the first expression of the builder, so it can
+   * be inspected with `toAST()`, extended with further conditions and built again.
+   *
+   * @example
+   * const query = PocketbaseQuery.parse<Post>('status="active" || views>100');
+   * query.and().equal("author", authorId).build();
+   * // (status="active" || views>100) && author="..."
+   *
+   * @param {string} filter - The filter expression to parse.
+   * @param {QueryOptions} options - Options of the new builder.
+   * @returns {PocketbaseQuery<T>} A new query builder holding the parsed expression.
+   * @throws {FilterParseError} When the filter is not a valid expression, with the position of the error.
+   */
+  public static parse<T>(filter: string, options: QueryOptions<T> = {}): PocketbaseQuery<T> {
+    const query = new PocketbaseQuery<T>(options);
+    const node = parseFilter(filter);
+    if (node) query.pushNode(node);
+    return query;
+  }
+
+  /**
+   * Reads a query serialized with {@link PocketbaseQuery.toJSON} into a new query builder,
+   * like {@link PocketbaseQuery.parse} does for filter strings. Fields renamed since the
+   * query was saved can be mapped to their new name.
+   *
+   * @example
+   * const query = PocketbaseQuery.fromJSON<Post>(view.query, { renames: { author: "owner" } });
+   * query.build(); // owner="..." && status="published"
+   *
+   * @param {unknown} json - The serialized query, parsed or as a JSON string.
+   * @param {QueryOptions & DeserializeOptions} options - Options of the new builder and the renamed fields.
+   * @returns {PocketbaseQuery<T>} A new query builder holding the serialized expression.
+   * @throws {PocketbaseQueryError} When the JSON is not a serialized query, or was written by a newer version.
+   */
+  public static fromJSON<T>(
+    json: unknown,
+    { renames, ...options }: QueryOptions<T> & DeserializeOptions = {}
+  ): PocketbaseQuery<T> {
+    const query = new PocketbaseQuery<T>(options);
+    const node = deserializeQuery(json, { renames });
+    if (node) query.pushNode(node);
+    return query;
+  }
+
+  /**
+   * Creates a new query builder for authoring API rules.
+   * Right-hand operands referencing the request, other collections or fields
+   * must be passed as references, since strings are always quoted.
+   *
+   * @example
+   * const listRule = PocketbaseQuery.rule<Post>()
+   *   .equal("owner", request.auth("id"))
+   *   .or()
+   *   .equal(collection("memberships", "m").field("user"), request.auth("id"))
+   *   .build();
+   * // owner=@request.auth.id || @collection.memberships:m.user=@request.auth.id
+   *
+   * @param {QueryOptions} options - Builder options.
+   * @returns {PocketbaseQuery<T>} A new query builder in rule mode.
+   */
+  public static rule<T>(options: QueryOptions<T> = {}): PocketbaseQuery<T> {
+    return new PocketbaseQuery<T>({ ...options, rule: true });
+  }
+
+  /**
+   * Creates a factory of builders sharing default options, such as scopes
+   * ANDed into every build. Options passed to the factory methods are merged
+   * with the defaults, and their scopes are added to the default ones.
+   *
+   * @example
+   * const posts = PocketbaseQuery.factory<Post>({
+   *   scopes: [fragment("tenant", (query) => query.equal("tenant", tenantId))],
+   * });
+   * posts.create().equal("status", "published").build(); // tenant="..." && status="published"
+   * posts.create().unscoped("tenant").equal("status", "published").build(); // status="published"
+   *
+   * @param {QueryOptions<T>} defaults - The options of every builder created by the factory.
+   * @returns {QueryFactory<T>} The factory.
+   */
+  public static factory<T>(defaults: QueryOptions<T> = {}): QueryFactory<T> {
+    const merge = (options: QueryOptions<T> = {}): QueryOptions<T> => ({
+      ...defaults,
+      ...options,
+      scopes: [...(defaults.scopes ?? []), ...(options.scopes ?? [])],
+    });
+    return {
+      create: (options) => PocketbaseQuery.create<T>(merge(options)),
+      parse: (filter, options) => PocketbaseQuery.parse<T>(filter, merge(options)),
+      fromJSON: (json, options) => PocketbaseQuery.fromJSON<T>(json, merge(options)),
+    };
+  }
+
+  /**
+   * Creates a builder holding the filters of every given builder joined with `&&`.
+   * Each filter is kept as a unit, so `||` inside one of them is grouped.
+   * The builders are left untouched, and the new one has the options of the first.
+   *
+   * @example
+   * const published = PocketbaseQuery.create<Post>().equal("status", "published");
+   * const mine = PocketbaseQuery.create<Post>().equal("owner", userId).or().equal("public", true);
+   * PocketbaseQuery.and(published, mine).build();
+   * // status="published" && (owner="..." || public=true)
+   *
+   * @param {PocketbaseQuery<T>[]} queries - The builders to combine.
+   * @returns {PocketbaseQuery<T>} A new builder holding the combined filter.
+   * @throws {UnbalancedBracketError} When a bracket of one of the builders is still open.
+   */
+  public static and<T>(...queries: PocketbaseQuery<T>[]): PocketbaseQuery<T> {
+    return PocketbaseQuery.combine("&&", queries);
+  }
+
+  /**
+   * Creates a builder holding the filters of every given builder joined with `||`.
+   * The builders are left untouched, and the new one has the options of the first.
+   *
+   * @example
+   * PocketbaseQuery.or(drafts, PocketbaseQuery.and(published, mine)).build();
+   * // status="draft" || status="published" && (owner="..." || public=true)
+   *
+   * @param {PocketbaseQuery<T>[]} queries - The builders to combine.
+   * @returns {PocketbaseQuery<T>} A new builder holding the combined filter.
+   * @throws {UnbalancedBracketError} When a bracket of one of the builders is still open.
+   */
+  public static or<T>(...queries: PocketbaseQuery<T>[]): PocketbaseQuery<T> {
+    return PocketbaseQuery.combine("||", queries);
+  }
+
+  /**
+   * Joins the filters of several builders, along with the issues found in them.
+   * Their scopes are already part of their filters, so the new builder has none.
+   */
+  private static combine<T>(operator: LogicalOperator, queries: PocketbaseQuery<T>[]) {
+    const query = new PocketbaseQuery<T>({ ...queries[0]?.options, scopes: undefined });
+    const parts = queries.map((part) => part.finish("openBracket()"));
+    const nodes = parts.flatMap(({ ast }) => (ast ? [ast] : []));
+
+    query.issues = parts.flatMap(({ issues }) => issues);
+    if (nodes.length) {
+      query.pushNode(nodes.length > 1 ? { type: "logical", operator, children: nodes } : nodes[0]);
+    }
+    return query;
+  }
+
   getLastQueryValue() {
     return this.lastQueryValue;
   }
 
+  /**
+   * Creates an independent copy of the builder, including brackets that are still open.
+   * Useful to fork a partially built query into several variants.
+   *
+   * @returns {PocketbaseQuery<T>} The copy of the builder.
+   */
+  clone(): PocketbaseQuery<T> {
+    const query = new PocketbaseQuery<T>(this.options);
+    query.lastQueryValue = this.lastQueryValue;
+    query.frames = this.frames.map((frame) => ({ ...frame, entries: [...frame.entries] }));
+    query.issues = [...this.issues];
+    query.listOptions = { ...this.listOptions };
+    query.disabledScopes = [...this.disabledScopes];
+    return query;
+  }
+
+  /**
+   * Applies a change to the builder, or to a copy of it in immutable mode.
+   *
+   * @param {(query: PocketbaseQuery<T>) => void} change - The change to apply.
+   * @returns {PocketbaseQuery<T>} The changed builder.
+   */
+  private mutate(change: (query: PocketbaseQuery<T>) => void): PocketbaseQuery<T> {
+    const query = this.options.immutable ? this.clone() : this;
+    change(query);
+    return query;
+  }
+
+  /**
+   * Resets the query builder to its initial state.
+   */
+  private reset() {
+    this.lastQueryValue = "";
+    this.frames = [createFrame()];
+    this.issues = [];
+    this.listOptions = {};
+    this.disabledScopes = [];
+  }
+
+  /**
+   * Records a problem found in the chain of calls.
+   */
+  private addIssue(code: QueryIssueCode, call: string, message: string) {
+    this.issues.push({ code, call, message });
+  }
+
+  /**
+   * Returns the innermost open bracket, or the top level of the query.
+   */
+  private get currentFrame() {
+    return this.frames[this.frames.length - 1];
+  }
+
+  /**
+   * Adds an expression to the innermost open bracket, joined to the previous
+   * expression by the pending logical operator. Expressions added without an
+   * operator in between are joined with `&&`.
+   *
+   * @param {FilterNode} node - The expression to add.
+   */
+  private pushNode(node: FilterNode) {
+    const frame = this.currentFrame;
+    frame.entries.push({ join: frame.pendingJoin?.operator ?? "&&", node });
+    frame.pendingJoin = null;
+  }
+
+  /**
+   * Sets the logical operator joining the previous expression to the next one.
+   * Calling it twice in a row keeps the last operator; an operator with no
+   * expression before or after it is dropped when the query is built.
+   *
+   * @param {LogicalOperator} operator - The logical operator.
+   * @param {string} call - The builder call adding the operator.
+   */
+  private setJoin(operator: LogicalOperator, call: string) {
+    const frame = this.currentFrame;
+    this.lastQueryValue = "";
+
+    this.flagPendingJoin(frame);
+    if (!frame.entries.length) {
+      this.addIssue("DANGLING_OPERATOR", call, "has no expression before it");
+      return;
+    }
+    frame.pendingJoin = { operator, call };
+  }
+
+  /**
+   * Records the pending operator of a frame as dangling, since no expression followed it.
+   */
+  private flagPendingJoin(frame: QueryFrame) {
+    if (frame.pendingJoin) this.issues.push(danglingJoinIssue(frame.pendingJoin));
+  }
+
   /**
    * Private helper method to add an expression to the query string.
    * It takes an expression object with the following properties:
@@ -62,434 +551,1295 @@ class PocketbaseQuery<T> {
    * - `operator`: The operator to use for this expression.
    * - `value`: The value to add to the query.
    * 
-   * If the value is a boolean, it will be appended to the query string
-   * without quotes. Otherwise, the value will be appended with double
-   * quotes around it.
+   * The value is serialized by type: strings are quoted with any embedded
+   * double quote escaped, numbers and booleans are appended without quotes,
+   * `null` becomes the `null` literal and dates become quoted UTC datetimes.
+   * `undefined` and empty strings are skipped. The value is also bound as a
+   * parameter for {@link PocketbaseQuery.build} in parameter mode.
    * 
    * The method also keeps track of the last query value and will reset it
    * after adding the expression to the query string.
    * 
-   * @param {Expression<T>} expression The expression object to add to the query.
+   * @param {Expression} expression The expression object to add to the query.
+   * @param {string} method The name of the builder method, used in issue messages.
    * @returns {PocketbaseQuery<T>} The current instance for chaining.
    */
-  private addExpression({ field, operator, value }: Expression<T>) {
-    const isValidValue = value !== null && value !== undefined && value !== '';
-    
-    if (typeof value === "boolean") {
-      this.lastQueryValue = value.toString();
-      this.query += `${field.toString()}${operator}${value}`;
-      return this;
-    }
-    
-    if (isValidValue) {
-      this.lastQueryValue = value;
-      this.query += `${field.toString()}${operator}"${value}"`;
+  private addExpression(expression: Expression, method: string) {
+    return this.mutate((query) => query.pushExpression(expression, method));
+  }
+
+  /**
+   * Adds a condition node for the expression, unless its value is empty.
+   *
+   * @param {Expression} expression The expression object to add to the query.
+   * @param {string} method The name of the builder method, used in issue messages.
+   */
+  private pushExpression({ field, operator, value: input }: Expression, method: string) {
+    const call = describeCall(method, field, input);
+    const value = this.resolveEmpty(input, call, "was skipped because its value is empty");
+    if (value === undefined) return;
+
+    if (this.options.rule) assertRuleOperand(value, call);
+    // serializing also rejects anything that is not a FilterValue
+    const literal = serializeValue(value);
+    this.lastQueryValue = typeof value === "string" ? value : literal;
+    this.pushNode({
+      type: "condition",
+      field: field.toString(),
+      operator,
+      value: value as FilterValue,
+    });
+  }
+
+  /**
+   * Applies the empty-value policy (see {@link QueryOptions.emptyValues}) to a value.
+   *
+   * @param {unknown} value - The value passed to the builder.
+   * @param {string} call - The builder call, used in issue messages.
+   * @param {string} message - The warning recorded when the condition is skipped.
+   * @returns {unknown} The value to compare against, or `undefined` when the condition is skipped.
+   * @throws {EmptyValueError} When the value is empty and the policy is `"throw"`.
+   */
+  private resolveEmpty(value: unknown, call: string, message: string): unknown {
+    if (value !== undefined && value !== "") return value;
+
+    const policy = this.options.emptyValues ?? "skip";
+    if (policy === "null") return null;
+    if (policy === "throw") {
+      throw createIssueError([{ code: "EMPTY_VALUE", call, message: "has an empty value" }]);
     }
-    return this;
+    this.addIssue("EMPTY_VALUE", call, message);
+    return undefined;
   }
 
   /**
-   * Adds an AND condition to the query string.
-   * If the last query value was not empty, it will add " && " to the query
-   * string to separate the expressions.
+   * Adds an AND condition to the query.
+   * The next expression will be joined to the previous one with " && ".
    * 
    * @returns {PocketbaseQuery<T>} The current instance for chaining.
    */
   and() {
-    this.query += " && ";
-    this.lastQueryValue = "";
-    return this;
+    return this.mutate((query) => query.setJoin("&&", "and()"));
   }
 
 /**
- * Adds an OR condition to the query string.
- * If the last query value was not empty, it will add " || " to the query
- * string to separate the expressions.
+ * Adds an OR condition to the query.
+ * The next expression will be joined to the previous one with " || ".
  * 
  * @returns {PocketbaseQuery<T>} The current instance for chaining.
  */
   or() {
-    this.query += " || ";
-    this.lastQueryValue = "";
-    return this;
+    return this.mutate((query) => query.setJoin("||", "or()"));
   }
 
   /**
    * Opens a bracket to group expressions.
-   * It will add "(" to the query string.
+   * Every expression up to the matching `closeBracket()` is rendered in parentheses.
    * 
    * @returns {PocketbaseQuery<T>} The current instance for chaining.
    */
   openBracket() {
-    this.query += "(";
-    return this;
+    return this.mutate((query) => {
+      const parent = query.currentFrame;
+      query.frames.push(createFrame("openBracket()", parent.pendingJoin));
+      parent.pendingJoin = null;
+    });
   }
 
   /**
    * Closes a bracket to group expressions.
-   * It will add ")" to the query string.
+   * A bracket without any expression inside is dropped.
    * 
    * @returns {PocketbaseQuery<T>} The current instance for chaining.
+   * @throws {UnbalancedBracketError} When there is no open bracket to close.
    */
   closeBracket() {
-    this.query += ")";
-    return this;
+    if (this.frames.length === 1) {
+      throw new UnbalancedBracketError({
+        code: "UNBALANCED_BRACKET",
+        call: "closeBracket()",
+        message: "was called without a matching openBracket()",
+      });
+    }
+    return this.mutate((query) => query.closeFrame());
+  }
+
+  /**
+   * Adds a group of expressions built by the callback, rendered in parentheses.
+   * Unlike `openBracket()`/`closeBracket()`, the brackets are always balanced,
+   * and a group whose conditions were all skipped as empty is dropped.
+   * 
+   * @example
+   * query.equal("status", "active").and().group((q) => q.like("title", search).or().like("content", search));
+   * // status="active" && (title~"..." || content~"...")
+   * 
+   * @param {(query: PocketbaseQuery<T>) => PocketbaseQuery<T> | void} build - Receives a new builder to add the grouped expressions to.
+   * @returns {PocketbaseQuery<T>} The current instance for chaining.
+   */
+  group(build: (query: PocketbaseQuery<T>) => PocketbaseQuery<T> | void) {
+    return this.addGroup(build, "group()");
+  }
+
+  /**
+   * Joins a group of expressions to the previous expression with " && ".
+   * Shorthand for `and().group(build)`.
+   * 
+   * @param {(query: PocketbaseQuery<T>) => PocketbaseQuery<T> | void} build - Receives a new builder to add the grouped expressions to.
+   * @returns {PocketbaseQuery<T>} The current instance for chaining.
+   */
+  andGroup(build: (query: PocketbaseQuery<T>) => PocketbaseQuery<T> | void) {
+    return this.mutate((query) => query.setJoin("&&", "andGroup()")).addGroup(build, "andGroup()");
+  }
+
+  /**
+   * Joins a group of expressions to the previous expression with " || ".
+   * Shorthand for `or().group(build)`.
+   * 
+   * @param {(query: PocketbaseQuery<T>) => PocketbaseQuery<T> | void} build - Receives a new builder to add the grouped expressions to.
+   * @returns {PocketbaseQuery<T>} The current instance for chaining.
+   */
+  orGroup(build: (query: PocketbaseQuery<T>) => PocketbaseQuery<T> | void) {
+    return this.mutate((query) => query.setJoin("||", "orGroup()")).addGroup(build, "orGroup()");
+  }
+
+  /**
+   * Adds the negation of the expressions added by the callback. PocketBase filters
+   * have no `NOT`, so every operator is flipped to its complement (`=` and `!=`,
+   * `~` and `!~`, `>` and `<=`...) and `&&`/`||` are swapped. Fields holding multiple
+   * values are negated with any-item operators, and are recognized with the schema
+   * of the builder (see {@link QueryOptions.schema}). See {@link negate} for the details.
+   *
+   * @example
+   * query.equal("published", true).and().not((q) => q.equal("status", "draft").or().lessThan("views", 10));
+   * // published=true && status!="draft" && views>=10
+   *
+   * @param {(query: PocketbaseQuery<T>) => PocketbaseQuery<T> | void} build - Receives a new builder to add the expressions to negate to.
+   * @returns {PocketbaseQuery<T>} The current instance for chaining.
+   * @throws {PocketbaseQueryError} When a condition has no exact negation, such as `views>null`.
+   */
+  not(build: (query: PocketbaseQuery<T>) => PocketbaseQuery<T> | void) {
+    const { ast, issues } = this.buildNested(build, "not()");
+    const negated = ast ? negate(ast, { schema: this.options.schema }) : null;
+
+    return this.mutate((query) => {
+      query.issues.push(...issues);
+      if (negated) query.pushNode(negated);
+      else query.addIssue("EMPTY_GROUP", "not()", "contains no expression");
+    });
+  }
+
+  /**
+   * Builds a group with a new builder and adds it, along with the issues found inside.
+   */
+  private addGroup(build: (query: PocketbaseQuery<T>) => PocketbaseQuery<T> | void, call: string) {
+    const { ast, issues } = this.buildNested(build, call);
+
+    return this.mutate((query) => {
+      query.issues.push(...issues);
+      if (ast) query.pushNode({ type: "group", child: ast });
+      else query.addIssue("EMPTY_GROUP", call, "contains no expression");
+    });
+  }
+
+  /**
+   * Runs a callback on a new builder with the same options but no scopes,
+   * and returns the expression tree and the issues found in it. The nested builder
+   * is mutable, so callbacks that do not return it work in immutable mode too.
+   */
+  private buildNested(
+    build: (query: PocketbaseQuery<T>) => PocketbaseQuery<T> | void,
+    call: string
+  ): CollectedFilter {
+    const builder = new PocketbaseQuery<T>({ ...this.options, immutable: false, scopes: undefined });
+    return (build(builder) ?? builder).finish(`openBracket() inside ${call}`);
+  }
+
+  /**
+   * Adds the conditions of a fragment defined with {@link fragment}, joined to the
+   * previous expression like any other condition. A fragment mixing `&&` and `||`
+   * is grouped when needed to keep its meaning.
+   *
+   * @example
+   * query.equal("status", "published").and().apply(visibleTo, userId);
+   * // status="published" && (public=true || owner="...")
+   *
+   * @param {Fragment<T, A>} fragment - The fragment to add.
+   * @param {A} args - The parameters of the fragment.
+   * @returns {PocketbaseQuery<T>} The current instance for chaining.
+   */
+  apply<A extends unknown[]>(fragment: Fragment<T, A>, ...args: A) {
+    const call = `apply(${[fragment.name, ...args.map(describeArgument)].join(", ")})`;
+    const { ast, issues } = this.buildNested((query) => fragment.build(query, ...args), call);
+
+    return this.mutate((query) => {
+      query.issues.push(...issues);
+      if (ast) query.pushNode(ast);
+      else query.addIssue("EMPTY_GROUP", call, "contains no expression");
+    });
+  }
+
+  /**
+   * Opts out of default scopes (see {@link QueryOptions.scopes}) for this builder.
+   *
+   * @example
+   * posts.create().unscoped("tenant").equal("status", "published").build(); // status="published"
+   *
+   * @param {string[]} names - The names of the scopes to leave out, every scope when omitted.
+   * @returns {PocketbaseQuery<T>} The current instance for chaining.
+   * @throws {PocketbaseQueryError} When a name is not one of the scopes of the builder.
+   */
+  unscoped(...names: string[]) {
+    const scopes = (this.options.scopes ?? []).map((scope) => scope.name);
+    const unknown = names.find((name) => !scopes.includes(name));
+    if (unknown !== undefined) {
+      throw new PocketbaseQueryError(
+        `Unknown scope: ${unknown}; the builder has ${scopes.length ? scopes.join(", ") : "no scopes"}`
+      );
+    }
+    return this.mutate((query) => {
+      query.disabledScopes = [...query.disabledScopes, ...(names.length ? names : scopes)];
+    });
+  }
+
+  /**
+   * ANDs the scopes that were not opted out of into an expression tree.
+   */
+  private applyScopes(ast: FilterNode | null): CollectedFilter {
+    const scopes = (this.options.scopes ?? []).filter(
+      (scope) => !this.disabledScopes.includes(scope.name)
+    );
+    const parts = scopes.map((scope) =>
+      this.buildNested((query) => scope.build(query), `scope ${scope.name}`)
+    );
+    const nodes = [...parts.flatMap((part) => (part.ast ? [part.ast] : [])), ...(ast ? [ast] : [])];
+    return {
+      ast: nodes.length > 1 ? and(...nodes) : (nodes[0] ?? null),
+      issues: parts.flatMap((part) => part.issues),
+    };
+  }
+
+  /**
+   * Closes the innermost open bracket and adds its expressions to the parent as a group.
+   */
+  private closeFrame() {
+    const frame = this.frames.pop() as QueryFrame;
+    const parent = this.currentFrame;
+    const child = combineNodes(frame.entries);
+
+    this.flagPendingJoin(frame);
+    parent.pendingJoin = frame.openingJoin;
+    if (child) this.pushNode({ type: "group", child });
+    else this.addIssue("EMPTY_GROUP", `${frame.call}...closeBracket()`, "contains no expression");
   }
 
   /**
    * Adds an equality condition to the query for the specified field and value.
-   * The condition is formatted as `field="value"` or `field=true/false` if
-   * the value is a boolean.
+   * The condition is formatted as `field="value"`, or without quotes
+   * (`field=50`, `field=true`, `field=null`) for numbers, booleans and `null`.
    * 
-   * @param {keyof T} field - The field name to be compared.
-   * @param {string | boolean} value - The value to compare against; can be a string or boolean.
+   * @param {FieldOperand<T, F>} field - The field name or relation path to be compared.
+   * @param {OperandValue<T, F>} value - The value to compare against.
    * @returns {PocketbaseQuery<T>} The current instance for chaining.
    */
-  equal(field: keyof T, value: string | boolean) {
-    return this.addExpression({ field, operator: OperatorEnum.Equal, value });
+  equal<F extends string | Identifier>(field: FieldOperand<T, F>, value: OperandValue<T, F>) {
+    return this.addExpression({ field, operator: OperatorEnum.Equal, value }, "equal");
   }
 
   /**
    * Adds a not-equal condition to the query for the specified field and value.
    * The condition is formatted as `field!="value"`.
    * 
-   * @param {keyof T} field - The field name to be compared.
-   * @param {string} value - The value to compare against.
+   * @param {FieldOperand<T, F>} field - The field name or relation path to be compared.
+   * @param {OperandValue<T, F>} value - The value to compare against.
    * @returns {PocketbaseQuery<T>} The current instance for chaining.
    */
-  notEqual(field: keyof T, value: string) {
-    return this.addExpression({
-      field,
-      operator: OperatorEnum.NotEqual,
-      value,
-    });
+  notEqual<F extends string | Identifier>(field: FieldOperand<T, F>, value: OperandValue<T, F>) {
+    return this.addExpression(
+      { field, operator: OperatorEnum.NotEqual, value },
+      "notEqual"
+    );
   }
 
   /**
    * Adds a greater-than condition to the query for the specified field and value.
    * The condition is formatted as `field>"value"`.
    * 
-   * @param {keyof T} field - The field name to be compared.
-   * @param {string} value - The value to compare against.
+   * @param {FieldOperand<T, F>} field - The field name or relation path to be compared.
+   * @param {OperandValue<T, F>} value - The value to compare against.
    * @returns {PocketbaseQuery<T>} The current instance for chaining.
    */
-  greaterThan(field: keyof T, value: string) {
-    return this.addExpression({
-      field,
-      operator: OperatorEnum.GreaterThan,
-      value,
-    });
+  greaterThan<F extends string | Identifier>(field: FieldOperand<T, F>, value: OperandValue<T, F>) {
+    return this.addExpression(
+      { field, operator: OperatorEnum.GreaterThan, value },
+      "greaterThan"
+    );
   }
 
   /**
    * Adds a greater-than or equal condition to the query for the specified field and value.
    * The condition is formatted as `field>="value"`.
    * 
-   * @param {keyof T} field - The field name to be compared.
-   * @param {string} value - The value to compare against.
+   * @param {FieldOperand<T, F>} field - The field name or relation path to be compared.
+   * @param {OperandValue<T, F>} value - The value to compare against.
    * @returns {PocketbaseQuery<T>} The current instance for chaining.
    */
-  greaterThanOrEqual(field: keyof T, value: string) {
-    return this.addExpression({
-      field,
-      operator: OperatorEnum.GreaterThanOrEqual,
-      value,
-    });
+  greaterThanOrEqual<F extends string | Identifier>(field: FieldOperand<T, F>, value: OperandValue<T, F>) {
+    return this.addExpression(
+      { field, operator: OperatorEnum.GreaterThanOrEqual, value },
+      "greaterThanOrEqual"
+    );
   }
 
   /**
    * Adds a less-than condition to the query for the specified field and value.
    * The condition is formatted as `field<"value"`.
    * 
-   * @param {keyof T} field - The field name to be compared.
-   * @param {string} value - The value to compare against.
+   * @param {FieldOperand<T, F>} field - The field name or relation path to be compared.
+   * @param {OperandValue<T, F>} value - The value to compare against.
    * @returns {PocketbaseQuery<T>} The current instance for chaining.
    */
-  lessThan(field: keyof T, value: string) {
-    return this.addExpression({
-      field,
-      operator: OperatorEnum.LessThan,
-      value,
-    });
+  lessThan<F extends string | Identifier>(field: FieldOperand<T, F>, value: OperandValue<T, F>) {
+    return this.addExpression(
+      { field, operator: OperatorEnum.LessThan, value },
+      "lessThan"
+    );
   }
 
   /**
    * Adds a less-than or equal condition to the query for the specified field and value.
    * The condition is formatted as `field<="value"`.
    * 
-   * @param {keyof T} field - The field name to be compared.
-   * @param {string} value - The value to compare against.
+   * @param {FieldOperand<T, F>} field - The field name or relation path to be compared.
+   * @param {OperandValue<T, F>} value - The value to compare against.
    * @returns {PocketbaseQuery<T>} The current instance for chaining.
    */
-  lessThanOrEqual(field: keyof T, value: string) {
-    return this.addExpression({
-      field,
-      operator: OperatorEnum.LessThanOrEqual,
-      value,
-    });
+  lessThanOrEqual<F extends string | Identifier>(field: FieldOperand<T, F>, value: OperandValue<T, F>) {
+    return this.addExpression(
+      { field, operator: OperatorEnum.LessThanOrEqual, value },
+      "lessThanOrEqual"
+    );
   }
 
   /**
    * Adds a LIKE condition (partial match) to the query for the specified field and value.
    * The condition is formatted as `field~"value"`.
    * 
-   * @param {keyof T} field - The field name to be compared.
+   * @param {TextPath<T, F>} field - The field name or relation path to be compared.
    * @param {string} value - The value to compare against.
    * @returns {PocketbaseQuery<T>} The current instance for chaining.
    */
-  like(field: keyof T, value: string) {
-    return this.addExpression({ field, operator: OperatorEnum.Like, value });
+  like<F extends string | Identifier>(field: TextPath<T, F>, value: string | Identifier) {
+    return this.addExpression({ field, operator: OperatorEnum.Like, value }, "like");
   }
 
   /**
    * Adds a NOT LIKE condition to the query for the specified field and value.
    * The condition is formatted as `field!~"value"`.
    * 
-   * @param {keyof T} field - The field name to be compared.
+   * @param {TextPath<T, F>} field - The field name or relation path to be compared.
    * @param {string} value - The value to compare against.
    * @returns {PocketbaseQuery<T>} The current instance for chaining.
    */
-  notLike(field: keyof T, value: string) {
-    return this.addExpression({ field, operator: OperatorEnum.NotLike, value });
+  notLike<F extends string | Identifier>(field: TextPath<T, F>, value: string | Identifier) {
+    return this.addExpression({ field, operator: OperatorEnum.NotLike, value }, "notLike");
   }
 
   /**
    * Adds an equality condition for array fields to the query for the specified field and value.
    * The condition is formatted as `field?="value"`.
    * 
-   * @param {keyof T} field - The field name to be compared, which should be an array.
-   * @param {string} value - The value to compare against.
+   * @param {ArrayPath<T, F>} field - The field name or relation path to be compared, which should be an array.
+   * @param {OperandValue<T, F>} value - The value to compare against.
    * @returns {PocketbaseQuery<T>} The current instance for chaining.
    */
-  anyEqual(field: keyof T, value: string) {
-    return this.addExpression({
-      field,
-      operator: OperatorEnum.AnyEqual,
-      value,
-    });
+  anyEqual<F extends string | Identifier>(field: ArrayPath<T, F>, value: OperandValue<T, F>) {
+    return this.addExpression(
+      { field, operator: OperatorEnum.AnyEqual, value },
+      "anyEqual"
+    );
   }
 
   /**
    * Adds a NOT EQUAL condition for array fields to the query for the specified field and value.
    * The condition is formatted as `field?!="value"`.
    * 
-   * @param {keyof T} field - The field name to be compared, which should be an array.
-   * @param {string} value - The value to compare against.
+   * @param {ArrayPath<T, F>} field - The field name or relation path to be compared, which should be an array.
+   * @param {OperandValue<T, F>} value - The value to compare against.
    * @returns {PocketbaseQuery<T>} The current instance for chaining.
    */
-  anyNotEqual(field: keyof T, value: string) {
-    return this.addExpression({
-      field,
-      operator: OperatorEnum.AnyNotEqual,
-      value,
-    });
+  anyNotEqual<F extends string | Identifier>(field: ArrayPath<T, F>, value: OperandValue<T, F>) {
+    return this.addExpression(
+      { field, operator: OperatorEnum.AnyNotEqual, value },
+      "anyNotEqual"
+    );
   }
 
   /**
    * Adds a greater-than condition for array fields to the query for the specified field and value.
    * The condition is formatted as `field?>="value"`.
    * 
-   * @param {keyof T} field - The field name to be compared, which should be an array.
-   * @param {string} value - The value to compare against.
+   * @param {ArrayPath<T, F>} field - The field name or relation path to be compared, which should be an array.
+   * @param {OperandValue<T, F>} value - The value to compare against.
    * @returns {PocketbaseQuery<T>} The current instance for chaining.
    */
-  anyGreaterThan(field: keyof T, value: string) {
-    return this.addExpression({
-      field,
-      operator: OperatorEnum.AnyGreaterThan,
-      value,
-    });
+  anyGreaterThan<F extends string | Identifier>(field: ArrayPath<T, F>, value: OperandValue<T, F>) {
+    return this.addExpression(
+      { field, operator: OperatorEnum.AnyGreaterThan, value },
+      "anyGreaterThan"
+    );
   }
 
   /**
    * Adds a greater-than or equal condition for array fields to the query for the specified field and value.
    * The condition is formatted as `field?>="value"`.
    * 
-   * @param {keyof T} field - The field name to be compared, which should be an array.
-   * @param {string} value - The value to compare against.
+   * @param {ArrayPath<T, F>} field - The field name or relation path to be compared, which should be an array.
+   * @param {OperandValue<T, F>} value - The value to compare against.
    * @returns {PocketbaseQuery<T>} The current instance for chaining.
    */
-  anyGreaterThanOrEqual(field: keyof T, value: string) {
-    return this.addExpression({
-      field,
-      operator: OperatorEnum.AnyGreaterThanOrEqual,
-      value,
-    });
+  anyGreaterThanOrEqual<F extends string | Identifier>(field: ArrayPath<T, F>, value: OperandValue<T, F>) {
+    return this.addExpression(
+      { field, operator: OperatorEnum.AnyGreaterThanOrEqual, value },
+      "anyGreaterThanOrEqual"
+    );
   }
 
   /**
    * Adds a less-than condition for array fields to the query for the specified field and value.
    * The condition is formatted as `field?<="value"`.
    * 
-   * @param {keyof T} field - The field name to be compared, which should be an array.
-   * @param {string} value - The value to compare against.
+   * @param {ArrayPath<T, F>} field - The field name or relation path to be compared, which should be an array.
+   * @param {OperandValue<T, F>} value - The value to compare against.
    * @returns {PocketbaseQuery<T>} The current instance for chaining.
    */
-  anyLessThan(field: keyof T, value: string) {
-    return this.addExpression({
-      field,
-      operator: OperatorEnum.AnyLessThan,
-      value,
-    });
+  anyLessThan<F extends string | Identifier>(field: ArrayPath<T, F>, value: OperandValue<T, F>) {
+    return this.addExpression(
+      { field, operator: OperatorEnum.AnyLessThan, value },
+      "anyLessThan"
+    );
   }
 
   /**
    * Adds a less-than or equal condition for array fields to the query for the specified field and value.
    * The condition is formatted as `field?<="value"`.
    * 
-   * @param {keyof T} field - The field name to be compared, which should be an array.
-   * @param {string} value - The value to compare against.
+   * @param {ArrayPath<T, F>} field - The field name or relation path to be compared, which should be an array.
+   * @param {OperandValue<T, F>} value - The value to compare against.
    * @returns {PocketbaseQuery<T>} The current instance for chaining.
    */
-  anyLessThanOrEqual(field: keyof T, value: string) {
-    return this.addExpression({
-      field,
-      operator: OperatorEnum.AnyLessThanOrEqual,
-      value,
-    });
+  anyLessThanOrEqual<F extends string | Identifier>(field: ArrayPath<T, F>, value: OperandValue<T, F>) {
+    return this.addExpression(
+      { field, operator: OperatorEnum.AnyLessThanOrEqual, value },
+      "anyLessThanOrEqual"
+    );
   }
 
   /**
    * Adds a LIKE condition (partial match) for array fields to the query for the specified field and value.
    * The condition is formatted as `field?~"value"`.
    * 
-   * @param {keyof T} field - The field name to be compared, which should be an array.
+   * @param {ArrayPath<T, F>} field - The field name or relation path to be compared, which should be an array.
    * @param {string} value - The value to compare against.
    * @returns {PocketbaseQuery<T>} The current instance for chaining.
    */
-  anyLike(field: keyof T, value: string) {
-    return this.addExpression({ field, operator: OperatorEnum.AnyLike, value });
+  anyLike<F extends string | Identifier>(field: ArrayPath<T, F> & TextPath<T, F>, value: string | Identifier) {
+    return this.addExpression({ field, operator: OperatorEnum.AnyLike, value }, "anyLike");
   }
 
   /**
    * Adds a NOT LIKE condition (partial match) for array fields to the query for the specified field and value.
    * The condition is formatted as `field?!~"value"`.
    * 
-   * @param {keyof T} field - The field name to be compared, which should be an array.
+   * @param {ArrayPath<T, F>} field - The field name or relation path to be compared, which should be an array.
    * @param {string} value - The value to compare against.
    * @returns {PocketbaseQuery<T>} The current instance for chaining.
    */
-  anyNotLike(field: keyof T, value: string) {
-    return this.addExpression({
-      field,
-      operator: OperatorEnum.AnyNotLike,
-      value,
+  anyNotLike<F extends string | Identifier>(field: ArrayPath<T, F> & TextPath<T, F>, value: string | Identifier) {
+    return this.addExpression(
+      { field, operator: OperatorEnum.AnyNotLike, value },
+      "anyNotLike"
+    );
+  }
+  /**
+   * Adds a condition matching fields with no value.
+   * The condition is formatted as `field=""`, or `field:length=0` for multiple fields,
+   * which must be flagged with `{ multiple: true }`.
+   * 
+   * @example
+   * query.isEmpty("description").and().isEmpty("tags", { multiple: true });
+   * // description="" && tags:length=0
+   * 
+   * @param {TextPath<T, F> | ArrayPath<T, F>} field - The text or multiple field to check.
+   * @param {EmptyCheckOptions} options - `{ multiple: true }` for multiple select, relation and file fields.
+   * @returns {PocketbaseQuery<T>} The current instance for chaining.
+   */
+  isEmpty<F extends string | Identifier>(
+    field: TextPath<T, F> | ArrayPath<T, F>,
+    ...args: EmptyCheckArgs<T, F>
+  ) {
+    const [options] = args as [EmptyCheckOptions?];
+    return options?.multiple
+      ? this.addCheck(`${field}:length`, OperatorEnum.Equal, 0)
+      : this.addCheck(field.toString(), OperatorEnum.Equal, "");
+  }
+  /**
+   * Adds a condition matching fields with a value.
+   * The condition is formatted as `field!=""`, or `field:length>0` for multiple fields,
+   * which must be flagged with `{ multiple: true }`.
+   * 
+   * @param {TextPath<T, F> | ArrayPath<T, F>} field - The text or multiple field to check.
+   * @param {EmptyCheckOptions} options - `{ multiple: true }` for multiple select, relation and file fields.
+   * @returns {PocketbaseQuery<T>} The current instance for chaining.
+   */
+  isNotEmpty<F extends string | Identifier>(
+    field: TextPath<T, F> | ArrayPath<T, F>,
+    ...args: EmptyCheckArgs<T, F>
+  ) {
+    const [options] = args as [EmptyCheckOptions?];
+    return options?.multiple
+      ? this.addCheck(`${field}:length`, OperatorEnum.GreaterThan, 0)
+      : this.addCheck(field.toString(), OperatorEnum.NotEqual, "");
+  }
+  /**
+   * Adds a condition matching fields that are not set, e.g. an optional relation.
+   * The condition is formatted as `field=null`.
+   * 
+   * @param {FieldOperand<T, F>} field - The field name or relation path to check.
+   * @returns {PocketbaseQuery<T>} The current instance for chaining.
+   */
+  isNull<F extends string | Identifier>(field: FieldOperand<T, F>) {
+    return this.addCheck(field.toString(), OperatorEnum.Equal, null);
+  }
+  /**
+   * Adds a condition matching fields that are set.
+   * The condition is formatted as `field!=null`.
+   * 
+   * @param {FieldOperand<T, F>} field - The field name or relation path to check.
+   * @returns {PocketbaseQuery<T>} The current instance for chaining.
+   */
+  isNotNull<F extends string | Identifier>(field: FieldOperand<T, F>) {
+    return this.addCheck(field.toString(), OperatorEnum.NotEqual, null);
+  }
+
+  /**
+   * Adds a condition comparing a field with an empty literal, bypassing the empty-value policy.
+   */
+  private addCheck(field: string, operator: OperatorType, value: FilterValue) {
+    return this.mutate((query) => {
+      query.lastQueryValue = serializeValue(value);
+      query.pushNode({ type: "condition", field, operator, value });
     });
   }
   /**
-   * Adds an IN condition for the specified field and array of values.
-   * The condition is formatted as `field~"value1" || field~"value2" || ...`.
+   * Adds a condition matching any of the given values exactly.
+   * The condition is formatted as `field="value1" || field="value2" || ...` and is
+   * added as a single expression, parenthesized when joined with `&&`.
+   * Empty values (`""`, `null` and `undefined`) are skipped, see {@link QueryOptions.emptyValues}.
    * 
-   * @param {keyof T} field - The field name to be compared.
-   * @param {any[]} values - The values to compare against.
+   * @example
+   * query.equal("author", authorId).and().in("status", ["draft", "review"]);
+   * // author="..." && (status="draft" || status="review")
+   * 
+   * @param {FieldOperand<T, F>} field - The field name or relation path to be compared.
+   * @param {OperandValue<T, F>[]} values - The values to compare against.
    * @returns {PocketbaseQuery<T>} The current instance for chaining.
    */
-  in(field: keyof T, values: any[]) {
-    const validValues = values.filter(value => 
-      value !== null && value !== undefined && value !== ''
-    );
-    
-    if (!validValues.length) return this;
-    
-    validValues.forEach((value, index) => {
-      this.addExpression({ field, operator: OperatorEnum.Like, value });
-      if (index < validValues.length - 1) this.or();
+  in<F extends string | Identifier>(field: FieldOperand<T, F>, values: (OperandValue<T, F> | undefined)[]) {
+    return this.addValueList(field, values, OperatorEnum.Equal, "||", "in");
+  }
+  /**
+   * Adds a condition matching none of the given values.
+   * The condition is formatted as `field!="value1" && field!="value2" && ...` and is
+   * added as a single expression. Empty values (`""`, `null` and `undefined`) are skipped,
+   * see {@link QueryOptions.emptyValues}.
+   * 
+   * @param {FieldOperand<T, F>} field - The field name or relation path to be compared.
+   * @param {OperandValue<T, F>[]} values - The values to exclude.
+   * @returns {PocketbaseQuery<T>} The current instance for chaining.
+   */
+  notIn<F extends string | Identifier>(field: FieldOperand<T, F>, values: (OperandValue<T, F> | undefined)[]) {
+    return this.addValueList(field, values, OperatorEnum.NotEqual, "&&", "notIn");
+  }
+  /**
+   * Adds a condition matching array fields holding any of the given values.
+   * The condition is formatted as `field?="value1" || field?="value2" || ...` and is
+   * added as a single expression, parenthesized when joined with `&&`.
+   * 
+   * @param {ArrayPath<T, F>} field - The field name or relation path to be compared, which should be an array.
+   * @param {OperandValue<T, F>[]} values - The values to compare against.
+   * @returns {PocketbaseQuery<T>} The current instance for chaining.
+   */
+  anyIn<F extends string | Identifier>(field: ArrayPath<T, F>, values: (OperandValue<T, F> | undefined)[]) {
+    return this.addValueList(field, values, OperatorEnum.AnyEqual, "||", "anyIn");
+  }
+  /**
+   * Adds a condition on array fields for each of the given values.
+   * The condition is formatted as `field?!="value1" && field?!="value2" && ...` and is
+   * added as a single expression.
+   * 
+   * @param {ArrayPath<T, F>} field - The field name or relation path to be compared, which should be an array.
+   * @param {OperandValue<T, F>[]} values - The values to exclude.
+   * @returns {PocketbaseQuery<T>} The current instance for chaining.
+   */
+  anyNotIn<F extends string | Identifier>(field: ArrayPath<T, F>, values: (OperandValue<T, F> | undefined)[]) {
+    return this.addValueList(field, values, OperatorEnum.AnyNotEqual, "&&", "anyNotIn");
+  }
+  /**
+   * Adds a condition matching text fields containing any of the given values,
+   * the behaviour of `in()` before it switched to exact matches.
+   * The condition is formatted as `field~"value1" || field~"value2" || ...` and is
+   * added as a single expression, parenthesized when joined with `&&`.
+   * 
+   * @param {TextPath<T, F>} field - The field name or relation path to be compared.
+   * @param {string[]} values - The values to search for.
+   * @returns {PocketbaseQuery<T>} The current instance for chaining.
+   */
+  likeAny<F extends string | Identifier>(field: TextPath<T, F>, values: (string | Identifier | null | undefined)[]) {
+    return this.addValueList(field, values, OperatorEnum.Like, "||", "likeAny");
+  }
+
+  /**
+   * Adds one condition per value, joined by the given operator into a single expression.
+   * Empty values, and an empty list, are handled according to {@link QueryOptions.emptyValues}.
+   * With `"null"`, an empty list of alternatives becomes a condition matching no record,
+   * while an empty list of exclusions adds nothing, since it excludes no record.
+   */
+  private addValueList(
+    field: string | Identifier,
+    values: unknown[],
+    operator: OperatorType,
+    join: LogicalOperator,
+    method: string
+  ) {
+    const isEmpty = (value: unknown) => value === null || value === undefined || value === "";
+    const policy = this.options.emptyValues ?? "skip";
+    const validValues =
+      policy === "null"
+        ? values.map((value) => (isEmpty(value) ? null : value))
+        : values.filter((value) => !isEmpty(value));
+
+    const call = describeCall(method, field, values);
+    if (policy === "throw" && (!values.length || validValues.length < values.length)) {
+      const message = values.length ? "has empty values" : "has no values";
+      throw createIssueError([{ code: "EMPTY_VALUE", call, message }]);
+    }
+
+    return this.mutate((query) => {
+      if (!validValues.length) {
+        if (policy !== "null") {
+          const message = values.length ? "skipped empty values" : "was skipped because it has no values";
+          query.addIssue("EMPTY_VALUE", call, message);
+        } else if (join === "||") {
+          // `field=null && field!=null` matches no record, whatever the field holds
+          const name = field.toString();
+          query.lastQueryValue = serializeValue(null);
+          query.pushNode(
+            and(
+              { type: "condition", field: name, operator: OperatorEnum.Equal, value: null },
+              { type: "condition", field: name, operator: OperatorEnum.NotEqual, value: null }
+            )
+          );
+        }
+        return;
+      }
+      if (validValues.length < values.length) {
+        query.addIssue("EMPTY_VALUE", call, "skipped empty values");
+      }
+      if (query.options.rule) validValues.forEach((value) => assertRuleOperand(value, call));
+
+      // serializing also rejects anything that is not a FilterValue
+      const literals = validValues.map(serializeValue);
+      const last = validValues[validValues.length - 1];
+      query.lastQueryValue = typeof last === "string" ? last : literals[literals.length - 1];
+
+      const conditions: ConditionNode[] = validValues.map((value) => ({
+        type: "condition",
+        field: field.toString(),
+        operator,
+        value: value as FilterValue,
+      }));
+      query.pushNode(
+        conditions.length === 1
+          ? conditions[0]
+          : { type: "logical", operator: join, children: conditions }
+      );
     });
-    return this;
   }
   /**
    * Adds a custom filter string to the query.
    * This can be useful when you need to create a filter that is not supported by the query builder.
-   * The custom filter string will be appended to the query.
+   * The custom filter string is added to the query as a single expression, and is
+   * wrapped in parentheses when it contains a top-level `||` and is joined with `&&`.
+   * 
+   * Values should be passed through `{:name}` placeholders rather than concatenated
+   * into the filter, so they get escaped the same way as the builder's own values.
+   * 
+   * @example
+   * query.customFilter("created>{:date} && title~{:search}", { date: "2023-01-01", search });
    * 
    * @param {string} filter - The custom filter string to be added to the query.
+   * @param {FilterParams} params - The values bound to the `{:name}` placeholders of the filter.
+   * @returns {PocketbaseQuery<T>} The current instance for chaining.
+   */
+  customFilter(filter: string, params: FilterParams = {}) {
+    // fail fast on missing placeholders and values that cannot be encoded
+    replacePlaceholders(filter, params, (_name, value) => serializeValue(value));
+
+    return this.mutate((query) => {
+      query.lastQueryValue = filter;
+      if (filter) query.pushNode({ type: "raw", filter, params: { ...params } });
+    });
+  }
+  /**
+   * Adds an inclusive range condition for the specified field.
+   * The condition is formatted as `field>=from && field<=to` and is added as a
+   * single expression, so it stays together when joined with `||`.
+   *
+   * @example
+   * query.between("created", new Date("2024-01-01"), DateMacro.now);
+   * // created>="2024-01-01 00:00:00.000Z" && created<=@now
+   *
+   * @param {FieldOperand<T, F>} field - The field name or relation path to be compared.
+   * @param {FilterValue} from - The lower bound, included.
+   * @param {FilterValue} to - The upper bound, included.
+   * @returns {PocketbaseQuery<T>} The current instance for chaining.
+   */
+  between<F extends string | Identifier>(field: FieldOperand<T, F>, from: OperandValue<T, F>, to: OperandValue<T, F>) {
+    return this.addRange(
+      field,
+      [OperatorEnum.GreaterThanOrEqual, from as FilterValue],
+      [OperatorEnum.LessThanOrEqual, to as FilterValue],
+      describeCall("between", field, from, to)
+    );
+  }
+  /**
+   * Adds a condition matching dates within a duration before now.
+   * The condition is formatted as `field>="<now - duration>"`, computed when the method is called.
+   *
+   * @example
+   * query.within("updated", { hours: 12 });
+   *
+   * @param {FieldOperand<T, F>} field - The datetime field to be compared.
+   * @param {Duration} duration - How far back to match, e.g. `{ days: 7 }`.
+   * @returns {PocketbaseQuery<T>} The current instance for chaining.
+   * @throws {PocketbaseQueryError} When the duration is invalid.
+   */
+  within<F extends string | Identifier>(field: FieldOperand<T, F>, duration: Duration) {
+    return this.addExpression(
+      { field, operator: OperatorEnum.GreaterThanOrEqual, value: subtractDuration(duration) },
+      "within"
+    );
+  }
+  /**
+   * Adds a condition matching records created within a duration before now.
+   * Shorthand for `within("created", duration)`.
+   *
+   * @example
+   * query.createdWithin({ days: 7 }); // created>="<7 days ago>"
+   *
+   * @param {Duration} duration - How far back to match, e.g. `{ days: 7 }`.
    * @returns {PocketbaseQuery<T>} The current instance for chaining.
+   * @throws {PocketbaseQueryError} When the duration is invalid.
+   */
+  createdWithin(duration: Duration) {
+    return this.within("created" as FieldOperand<T, "created">, duration);
+  }
+  /**
+   * Adds a condition matching dates on a calendar day of the given time zone.
+   * The condition is formatted as `field>="<start of day>" && field<"<start of next day>"`
+   * with both bounds in UTC, so days shortened or lengthened by daylight saving time are covered.
+   *
+   * @example
+   * query.onDay("created", "2024-03-10", "America/New_York");
+   * // created>="2024-03-10 05:00:00.000Z" && created<"2024-03-11 04:00:00.000Z"
+   *
+   * @param {FieldOperand<T, F>} field - The datetime field to be compared.
+   * @param {Date | string} date - An instant falling on the day, or the day as `YYYY-MM-DD`.
+   * @param {string} timeZone - An IANA time zone such as `Europe/Istanbul`, UTC by default.
+   * @returns {PocketbaseQuery<T>} The current instance for chaining.
+   * @throws {PocketbaseQueryError} When the date or the time zone is invalid.
+   */
+  onDay<F extends string | Identifier>(field: FieldOperand<T, F>, date: Date | string, timeZone = "UTC") {
+    const { from, to } = dayRange(date, timeZone);
+    return this.addRange(
+      field,
+      [OperatorEnum.GreaterThanOrEqual, from],
+      [OperatorEnum.LessThan, to],
+      describeCall("onDay", field, date, timeZone)
+    );
+  }
+
+  /**
+   * Adds a lower and an upper bound for a field as a single `&&` expression,
+   * unless one of the bounds is empty. Both bounds are validated when the method is called.
    */
-  customFilter(filter: string) {
-    this.lastQueryValue = filter;
-    if (!filter) return this;
-    this.query += filter;
-    return this;
+  private addRange(
+    field: string | Identifier,
+    [lowerOperator, lower]: [OperatorType, FilterValue],
+    [upperOperator, upper]: [OperatorType, FilterValue],
+    call: string
+  ) {
+    return this.mutate((query) => {
+      const message = "was skipped because a bound is empty";
+      const from = query.resolveEmpty(lower, call, message) as FilterValue | undefined;
+      if (from === undefined) return;
+      const to = query.resolveEmpty(upper, call, message) as FilterValue | undefined;
+      if (to === undefined) return;
+      if (query.options.rule) [from, to].forEach((value) => assertRuleOperand(value, call));
+      // serializing also rejects anything that is not a FilterValue
+      [from, to].forEach(serializeValue);
+
+      query.lastQueryValue = "";
+      query.pushNode(
+        and(
+          { type: "condition", field: field.toString(), operator: lowerOperator, value: from },
+          { type: "condition", field: field.toString(), operator: upperOperator, value: to }
+        )
+      );
+    });
   }
+  /**
+   * Sets the `sort` option of the list request.
+   * 
+   * @example
+   * query.sort((sort) => sort.desc("created").asc("title"));
+   * 
+   * @param {SortBuilder<T> | Function} sort - A sort builder, or a callback receiving a new one.
+   * @returns {PocketbaseQuery<T>} The current instance for chaining.
+   */
+  sort(sort: SortBuilder<T> | ((sort: SortBuilder<T>) => SortBuilder<T> | void)) {
+    const builder = resolveBuilder(sort, SortBuilder.create<T>());
+    return this.mutate((query) => {
+      query.listOptions.sort = builder.build();
+    });
+  }
+
+  /**
+   * Sets the `expand` option of the list request.
+   * 
+   * @example
+   * query.expand((expand) => expand.add("author").backRelation("comments", "post"));
+   * 
+   * @param {ExpandBuilder<T> | Function} expand - An expand builder, or a callback receiving a new one.
+   * @returns {PocketbaseQuery<T>} The current instance for chaining.
+   */
+  expand(expand: ExpandBuilder<T> | ((expand: ExpandBuilder<T>) => ExpandBuilder<T> | void)) {
+    const builder = resolveBuilder(expand, ExpandBuilder.create<T>());
+    return this.mutate((query) => {
+      query.listOptions.expand = builder.build();
+    });
+  }
+
+  /**
+   * Sets the `fields` option of the list request.
+   * 
+   * @example
+   * query.fields((fields) => fields.pick("id", "title").expand("author", ["name"]));
+   * 
+   * @param {FieldsBuilder<T, any> | Function} fields - A fields builder, or a callback receiving a new one.
+   * @returns {PocketbaseQuery<T>} The current instance for chaining.
+   */
+  fields(fields: FieldsBuilder<T, any> | ((fields: FieldsBuilder<T>) => FieldsBuilder<T, any> | void)) {
+    const builder = resolveBuilder(fields, FieldsBuilder.create<T>());
+    return this.mutate((query) => {
+      query.listOptions.fields = builder.build();
+    });
+  }
+
+  /**
+   * Sets the page to fetch, starting at 1.
+   * 
+   * @param {number} page - The page number.
+   * @returns {PocketbaseQuery<T>} The current instance for chaining.
+   * @throws {PocketbaseQueryError} When the page is not a positive integer.
+   */
+  page(page: number) {
+    assertPage(page);
+    return this.mutate((query) => {
+      query.listOptions.page = page;
+    });
+  }
+
+  /**
+   * Sets the number of records per page.
+   * 
+   * @param {number} perPage - The page size, at most {@link MAX_PER_PAGE}.
+   * @returns {PocketbaseQuery<T>} The current instance for chaining.
+   * @throws {PocketbaseQueryError} When the page size is not an integer between 1 and `MAX_PER_PAGE`.
+   */
+  perPage(perPage: number) {
+    assertPerPage(perPage);
+    return this.mutate((query) => {
+      query.listOptions.perPage = perPage;
+    });
+  }
+
+  /**
+   * Skips counting the total number of records, which makes list requests faster.
+   * `totalItems` and `totalPages` are returned as -1.
+   * 
+   * @param {boolean} skipTotal - Whether to skip the total count.
+   * @returns {PocketbaseQuery<T>} The current instance for chaining.
+   */
+  skipTotal(skipTotal = true) {
+    return this.mutate((query) => {
+      query.listOptions.skipTotal = skipTotal;
+    });
+  }
+
   /**
    * Gets the current query string.
    * This is useful for debugging and seeing what filter string is being generated.
+   * Brackets that are still open are rendered as if they were closed.
    * 
    * @returns {string} The current query string.
    */
   getQuery() {
-    return this.query;
+    return renderNode(this.toAST(), serializeValue);
+  }
+
+  /**
+   * Returns the expression tree recorded by the builder.
+   * Conditions are `condition` nodes, `customFilter` fragments are `raw` nodes,
+   * brackets are `group` nodes and runs of `&&`/`||` are `logical` nodes, with
+   * `&&` taking precedence over `||`. Brackets that are still open are treated
+   * as if they were closed, and default scopes are ANDed in front of the expressions.
+   * 
+   * @example
+   * PocketbaseQuery.getInstance<Post>().equal("status", "active").and().greaterThan("views", 10).toAST();
+   * // {
+   * //   type: "logical",
+   * //   operator: "&&",
+   * //   children: [
+   * //     { type: "condition", field: "status", operator: "=", value: "active" },
+   * //     { type: "condition", field: "views", operator: ">", value: 10 },
+   * //   ],
+   * // }
+   * 
+   * @returns {FilterNode | null} The root of the expression tree, or `null` for an empty query.
+   */
+  toAST(): FilterNode | null {
+    return this.applyScopes(this.collectAST()).ast;
+  }
+
+  /**
+   * Returns the expression tree of the builder's own expressions, without scopes.
+   */
+  private collectAST(): FilterNode | null {
+    let child = combineNodes(this.currentFrame.entries);
+    for (let depth = this.frames.length - 2; depth >= 0; depth--) {
+      const entries = [...this.frames[depth].entries];
+      if (child) {
+        const join = this.frames[depth + 1].openingJoin?.operator ?? "&&";
+        entries.push({ join, node: { type: "group", child } });
+      }
+      child = combineNodes(entries);
+    }
+    return child;
+  }
+
+  /**
+   * Checks whether a record matches the query, without sending it to the server,
+   * e.g. to keep an offline cache or an optimistic update consistent with a list.
+   * The builder is left untouched. See {@link evaluate} for the semantics.
+   * 
+   * @example
+   * const query = PocketbaseQuery.create<Post>().equal("status", "published");
+   * query.matches({ ...post, status: "draft" }); // false
+   * 
+   * @param {Partial<T>} record - The record to match, as returned by the SDK.
+   * @param {EvaluationContext} context - The request data and the current time.
+   * @returns {boolean} Whether the record matches the query.
+   * @throws {PocketbaseQueryError} When the query references data that is not available locally.
+   */
+  matches(record: Partial<T>, context: EvaluationContext = {}): boolean {
+    return evaluate(this.toAST(), record as Record<string, unknown>, context);
+  }
+
+  /**
+   * Compiles the query to a parameterized SQLite `WHERE` clause, e.g. to query
+   * collections mirrored into a local database with the same filter as the server.
+   * The builder is left untouched. See {@link toSQLite} for the mapping.
+   *
+   * @example
+   * const { where, bindings } = PocketbaseQuery.create<Post>().equal("status", "published").toSQLite();
+   * db.prepare(`SELECT * FROM posts WHERE ${where}`).all(...bindings);
+   *
+   * @param {SQLiteOptions} options - How field paths map to columns.
+   * @returns {SQLiteWhere} The clause and the values of its placeholders.
+   * @throws {PocketbaseQueryError} When the query references data that is not available locally.
+   */
+  toSQLite(options: SQLiteOptions = {}): SQLiteWhere {
+    return toSQLite(this.toAST(), options);
+  }
+
+  /**
+   * Computes the canonical form of the query, e.g. to use it as a cache key:
+   * logically identical queries built in a different order share the same string
+   * and hash. The builder is left untouched. See {@link normalize} for the rewrites.
+   *
+   * @example
+   * const a = PocketbaseQuery.create<Post>().equal("status", "published").and().equal("author", id);
+   * const b = PocketbaseQuery.create<Post>().equal("author", id).and().equal("status", "published");
+   * a.canonicalize().hash === b.canonicalize().hash; // true
+   *
+   * @returns {CanonicalFilter} The canonical filter and its hash.
+   */
+  canonicalize(): CanonicalFilter {
+    return canonicalize(this.toAST());
+  }
+
+  /**
+   * Serializes the query to a versioned JSON object, e.g. to store a saved view
+   * that can be edited or migrated later. `JSON.stringify(query)` calls it as well.
+   * Default scopes are left out, since the builder reading the query applies its own.
+   * The builder is left untouched. See {@link serializeQuery} for the format.
+   *
+   * @example
+   * const json = JSON.stringify(PocketbaseQuery.create<Post>().equal("status", "published"));
+   * PocketbaseQuery.fromJSON<Post>(json).build(); // status="published"
+   *
+   * @returns {SerializedQuery} The serialized query.
+   * @throws {PocketbaseQueryError} When a value cannot be represented in JSON.
+   */
+  toJSON(): SerializedQuery {
+    return serializeQuery(this.collectAST());
+  }
+
+  /**
+   * Returns the expression tree and every issue found in the chain of calls,
+   * after checking that every bracket was closed.
+   *
+   * @param {string} unclosedCall - The call reported when a bracket is still open.
+   * @returns {CollectedFilter} The expression tree, default scopes included, and the issues.
+   * @throws {UnbalancedBracketError} When a bracket is still open.
+   */
+  private finish(unclosedCall: string): CollectedFilter {
+    const open = this.frames.length - 1;
+    if (open > 0) {
+      throw new UnbalancedBracketError({
+        code: "UNBALANCED_BRACKET",
+        call: unclosedCall,
+        message: `was never closed (${open} unclosed bracket${open > 1 ? "s" : ""}); add the missing closeBracket()`,
+      });
+    }
+
+    const { ast, issues } = this.applyScopes(this.collectAST());
+    return { ast, issues: [...this.collectIssues(), ...issues] };
+  }
+
+  /**
+   * Returns the problems found in the chain of calls, including operators still pending.
+   */
+  private collectIssues() {
+    const trailing = this.frames.flatMap((frame) =>
+      frame.pendingJoin ? [danglingJoinIssue(frame.pendingJoin)] : []
+    );
+    return [...this.issues, ...trailing];
+  }
+
+  /**
+   * Checks the conditions of a tree against the schema of the builder, if any.
+   */
+  private schemaIssues(ast: FilterNode | null) {
+    return this.options.schema ? validateSchema(ast, this.options.schema) : [];
+  }
+
+  /**
+   * Returns the problems found so far in the chain of calls, such as dangling
+   * operators, empty groups and conditions skipped for an empty value.
+   * In lenient mode these are repaired silently by `build()`.
+   * With a schema, conditions that do not match it are reported as well.
+   *
+   * @returns {QueryIssue[]} The issues found so far.
+   */
+  getWarnings(): QueryIssue[] {
+    return [...this.collectIssues(), ...this.schemaIssues(this.toAST())];
   }
 
   /**
    * Builds the query string.
    * This method is used to generate the final filter string from the query builder.
-   * It will remove the trailing " ||" and " &&" from the query string and return the result.
+   * Logical operators without an expression on both sides and empty brackets are dropped.
    * Also, it will reset the query builder to its initial state, so you can use it again.
+   * In immutable mode the builder is left untouched instead.
+   * 
+   * When called with `{ params: true }`, values are replaced with `{:name}` placeholders
+   * and returned alongside the filter, matching the signature of the SDK's `pb.filter()`.
+   * 
+   * @example
+   * const { filter, params } = query.equal("status", status).build({ params: true });
+   * pb.collection("posts").getList(1, 20, { filter: pb.filter(filter, params) });
+   * 
+   * @param {BuildOptions} options - Build options.
+   * @returns {string | ParameterizedFilter} The generated filter string, or the filter and its params in parameter mode.
+   * In strict mode (see {@link QueryOptions.strict}), dangling operators, empty groups
+   * and conditions skipped for an empty value throw instead of being dropped, and so
+   * do conditions that do not match the schema (see {@link QueryOptions.schema}).
    * 
-   * @returns {string} The generated filter string.
+   * @throws {UnbalancedBracketError} When a bracket opened with `openBracket()` was never closed.
+   * @throws {PocketbaseQueryError} When parameter mode is requested for an API rule.
+   * @throws {QueryValidationError} In strict mode, for the first problem found in the chain of calls.
    */
-  build() {
-    let result = this.query.trim();
-    
-    result = this.cleanupQuery(result);
-
-    this.query = "";
-    this.lastQueryValue = "";
-    return result.trim();
-  }
-
-  /**
-   * Clean up the query string by removing unnecessary operators, brackets, and whitespace.
-   * This method is used internally by the query builder to generate a valid filter string.
-   * @param {string} query - The query string to be cleaned.
-   * @returns {string} The cleaned query string.
-   * @private
-   */
-   private cleanupQuery(query: string): string {
-    let result = query;
-    let prevResult = '';
-    
-    while (result !== prevResult) {
-      prevResult = result;
-      
-      // Remove empty brackets first
-      result = result.replace(/\(\s*\)/g, '');
-      
-      // Remove operators before closing brackets: || ) or && )
-      result = result.replace(/\s*(&&|\|\|)\s*\)/g, ')');
-      
-      // Remove operators after opening brackets: ( || or ( &&
-      result = result.replace(/\(\s*(&&|\|\|)\s*/g, '(');
-      
-      // Remove double operators: || || or && && or || && or && ||
-      result = result.replace(/\s*(&&|\|\|)\s+(&&|\|\|)\s*/g, ' $2 ');
-      
-      // Remove trailing operators
-      result = result.replace(/\s*(&&|\|\|)\s*$/, '');
-      
-      // Remove leading operators
-      result = result.replace(/^\s*(&&|\|\|)\s*/, '');
-      
-      // Handle specific pattern: ")condition" -> ") && condition"
-      result = result.replace(/\)([a-zA-Z_][a-zA-Z0-9_]*[=!<>~?]+)/g, ') && $1');
-      
-      // Clean up spacing around operators
-      result = result.replace(/\s*(&&|\|\|)\s*/g, ' $1 ');
-      
-      // Remove empty brackets again after other cleanups
-      result = result.replace(/\(\s*\)/g, '');
-      
-      // Clean up brackets
-      result = result.replace(/\(\)\s*([a-zA-Z])/g, '$1');
-      result = result.replace(/([a-zA-Z\)"])\s*\(\)/g, '$1');
-      
-      // Clean up any remaining whitespace issues
-      result = result.replace(/\s+/g, ' ').trim();
+  build(): string;
+  build(options: BuildOptions & { params: true }): ParameterizedFilter;
+  build(options?: BuildOptions): string | ParameterizedFilter;
+  build(options: BuildOptions = {}) {
+    if (options.params && this.options.rule) {
+      throw new PocketbaseQueryError(
+        "API rules are stored as plain expressions and cannot use parameter mode"
+      );
     }
-    
-    return result;
+    const { ast, issues } = this.finish("openBracket()");
+    issues.push(...this.schemaIssues(ast));
+    if (issues.length && this.options.strict) throw createIssueError(issues);
+    if (!this.options.immutable) this.reset();
+    issues.forEach((issue) => this.options.onWarning?.(issue));
+
+    if (!options.params) return renderNode(ast, serializeValue);
+
+    const params: FilterParams = {};
+    const filter = renderNode(ast, (value) => {
+      if (value instanceof Identifier) return value.name;
+      const name = `p${Object.keys(params).length}`;
+      params[name] = value;
+      return `{:${name}}`;
+    });
+    return { filter, params };
+  }
+
+  /**
+   * Builds the options object of a list request: the filter along with the
+   * `sort`, `expand`, `fields`, `page`, `perPage` and `skipTotal` options that
+   * were set. Empty options are omitted, so the result can be passed to
+   * `getList`, `getFullList` or `getFirstListItem` as-is.
+   * Like `build()`, it resets the builder unless it is immutable.
+   * 
+   * @example
+   * const { page, perPage, ...options } = PocketbaseQuery.create<Post>()
+   *   .equal("status", "published")
+   *   .sort((sort) => sort.desc("created"))
+   *   .expand((expand) => expand.add("author"))
+   *   .page(2)
+   *   .perPage(50)
+   *   .buildOptions();
+   * await pb.collection("posts").getList(page, perPage, options);
+   * 
+   * @returns {ListOptions} The list request options.
+   * @throws {PocketbaseQueryError} When `fields` and `expand` contradict each other.
+   */
+  buildOptions(): ListOptions {
+    const listOptions = this.listOptions;
+    validateListOptions(listOptions);
+
+    const options: ListOptions = { filter: this.build(), ...listOptions };
+    (Object.keys(options) as (keyof ListOptions)[]).forEach((key) => {
+      if (options[key] === "" || options[key] === undefined) delete options[key];
+    });
+    return options;
   }
 }
 
-export default PocketbaseQuery;
\ No newline at end of file
+/**
+ * Returns the given builder, or the one configured by the callback.
+ */
+function resolveBuilder<B>(builder: B | ((builder: B) => B | void), initial: B): B {
+  if (typeof builder !== "function") return builder;
+  return (builder as (builder: B) => B | void)(initial) ?? initial;
+}
+
+export {
+  canonicalize,
+  collection,
+  DanglingOperatorError,
+  DateMacro,
+  dayRange,
+  deserializeQuery,
+  EmptyGroupError,
+  EmptyValueError,
+  evaluate,
+  ExpandBuilder,
+  FieldsBuilder,
+  FilterParseError,
+  fragment,
+  generateTypes,
+  Identifier,
+  identifier,
+  MAX_EXPAND_DEPTH,
+  MAX_PER_PAGE,
+  negate,
+  normalize,
+  OperatorEnum,
+  parseFilter,
+  parseLiteral,
+  PocketbaseQueryError,
+  QUERY_JSON_VERSION,
+  QueryValidationError,
+  ref,
+  Reference,
+  request,
+  SchemaValidationError,
+  serializeQuery,
+  SortBuilder,
+  startOfDay,
+  toSQLite,
+  UnbalancedBracketError,
+  validateSchema,
+};
+export type {
+  ArrayPath,
+  BuildOptions,
+  CanonicalFilter,
+  ComparableValue,
+  ConditionNode,
+  DateMacroName,
+  DateRange,
+  DeserializeOptions,
+  Duration,
+  EmptyCheckArgs,
+  EmptyCheckOptions,
+  EmptyValuePolicy,
+  EvaluableFilter,
+  EvaluationContext,
+  ExpandCallback,
+  ExpandedRecord,
+  ExpandRelation,
+  FieldsResult,
+  FilterNode,
+  FieldOperand,
+  FilterParams,
+  FilterValue,
+  Fragment,
+  GenerateTypesOptions,
+  GroupNode,
+  ListOptions,
+  LogicalNode,
+  LogicalOperator,
+  NegateOptions,
+  OperandValue,
+  OperatorType,
+  ParameterizedFilter,
+  PathValue,
+  QueryIssue,
+  QueryIssueCode,
+  QueryFactory,
+  QueryOptions,
+  QuerySchema,
+  RawNode,
+  ReferenceModifier,
+  Relations,
+  SchemaCollection,
+  SchemaField,
+  SerializedNode,
+  SerializedQuery,
+  SerializedValue,
+  SortDirection,
+  SortField,
+  SQLiteBinding,
+  SQLiteOptions,
+  SQLiteWhere,
+  StringFields,
+  TextPath,
+  ValidPath,
+};
+export default PocketbaseQuery;
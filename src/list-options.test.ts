@@ -0,0 +1,97 @@
+import PocketbaseQuery, { ExpandBuilder, MAX_PER_PAGE, PocketbaseQueryError, SortBuilder } from '.';
+
+interface Post {
+  id: string;
+  title: string;
+  status: string;
+  created: string;
+  author: string;
+}
+
+describe('PocketbaseQuery list options', () => {
+  test('should build the whole options object', () => {
+    const options = PocketbaseQuery.create<Post>()
+      .equal('status', 'published')
+      .sort((sort) => sort.desc('created').asc('title'))
+      .expand((expand) => expand.add('author'))
+      .fields((fields) => fields.pick('id', 'title').expand('author', ['name']))
+      .page(2)
+      .perPage(50)
+      .skipTotal()
+      .buildOptions();
+
+    expect(options).toEqual({
+      filter: 'status="published"',
+      sort: '-created,+title',
+      expand: 'author',
+      fields: 'id,title,expand.author.name',
+      page: 2,
+      perPage: 50,
+      skipTotal: true,
+    });
+  });
+
+  test('should omit options that were not set', () => {
+    expect(PocketbaseQuery.create<Post>().sort((sort) => sort.random()).buildOptions()).toEqual({
+      sort: '@random',
+    });
+  });
+
+  test('should accept prebuilt builders', () => {
+    const options = PocketbaseQuery.create<Post>()
+      .sort(SortBuilder.create<Post>().asc('title'))
+      .expand(ExpandBuilder.create<Post>().add('author'))
+      .buildOptions();
+
+    expect(options).toEqual({ sort: '+title', expand: 'author' });
+  });
+
+  test('should reset the options after building', () => {
+    const query = PocketbaseQuery.create<Post>().page(3);
+    query.buildOptions();
+    expect(query.buildOptions()).toEqual({});
+  });
+
+  test('should keep the options of immutable builders', () => {
+    const base = PocketbaseQuery.create<Post>({ immutable: true }).perPage(10);
+    const second = base.page(2);
+
+    expect(second.buildOptions()).toEqual({ page: 2, perPage: 10 });
+    expect(base.buildOptions()).toEqual({ perPage: 10 });
+  });
+
+  test('should reject invalid pages', () => {
+    expect(() => PocketbaseQuery.create<Post>().page(0)).toThrow('page must be a positive integer, got 0');
+    expect(() => PocketbaseQuery.create<Post>().page(-1)).toThrow(PocketbaseQueryError);
+    expect(() => PocketbaseQuery.create<Post>().page(1.5)).toThrow(PocketbaseQueryError);
+  });
+
+  test('should reject page sizes over the server maximum', () => {
+    expect(() => PocketbaseQuery.create<Post>().perPage(MAX_PER_PAGE + 1)).toThrow(
+      'perPage must be an integer between 1 and 1000, got 1001'
+    );
+    expect(() => PocketbaseQuery.create<Post>().perPage(0)).toThrow(PocketbaseQueryError);
+    expect(PocketbaseQuery.create<Post>().perPage(MAX_PER_PAGE).buildOptions()).toEqual({ perPage: 1000 });
+  });
+
+  test('should reject fields that drop the expanded relations', () => {
+    const query = PocketbaseQuery.create<Post>()
+      .expand((expand) => expand.add('author'))
+      .fields((fields) => fields.pick('id'));
+
+    expect(() => query.buildOptions()).toThrow(PocketbaseQueryError);
+    expect(
+      PocketbaseQuery.create<Post>()
+        .expand((expand) => expand.add('author'))
+        .fields((fields) => fields.all())
+        .buildOptions()
+    ).toEqual({ expand: 'author', fields: '*' });
+  });
+
+  test('should reject fields of relations that are not expanded', () => {
+    const query = PocketbaseQuery.create<Post>().fields((fields) => fields.expand('author', ['name']));
+    expect(() => query.buildOptions()).toThrow(
+      'fields selects expand.author but the relation author is not expanded'
+    );
+  });
+});
@@ -0,0 +1,77 @@
+import { PocketbaseQueryError } from './errors';
+
+/**
+ * The largest `perPage` value accepted by the PocketBase list API.
+ */
+export const MAX_PER_PAGE = 1000;
+
+/**
+ * The options object accepted by the SDK's `getList`, `getFullList` and
+ * `getFirstListItem`. Options that were not set are omitted.
+ */
+export interface ListOptions {
+  filter?: string;
+  sort?: string;
+  expand?: string;
+  fields?: string;
+  page?: number;
+  perPage?: number;
+  skipTotal?: boolean;
+}
+
+/**
+ * Checks that a page number is a positive integer.
+ *
+ * @param {number} page - The page number, starting at 1.
+ * @throws {PocketbaseQueryError} When the page is not a positive integer.
+ */
+export function assertPage(page: number) {
+  if (!Number.isInteger(page) || page < 1) {
+    throw new PocketbaseQueryError(`page must be a positive integer, got ${page}`);
+  }
+}
+
+/**
+ * Checks that a page size is a positive integer no larger than {@link MAX_PER_PAGE}.
+ *
+ * @param {number} perPage - The number of records per page.
+ * @throws {PocketbaseQueryError} When the page size is out of range.
+ */
+export function assertPerPage(perPage: number) {
+  if (!Number.isInteger(perPage) || perPage < 1 || perPage > MAX_PER_PAGE) {
+    throw new PocketbaseQueryError(
+      `perPage must be an integer between 1 and ${MAX_PER_PAGE}, got ${perPage}`
+    );
+  }
+}
+
+/**
+ * Checks that the `fields` and `expand` options work together: expanded
+ * relations are dropped unless `fields` selects them, and selecting fields of
+ * a relation that is not expanded returns nothing.
+ *
+ * @param {ListOptions} options - The list options to check.
+ * @throws {PocketbaseQueryError} When the options contradict each other.
+ */
+export function validateListOptions({ expand, fields }: ListOptions) {
+  if (!fields) return;
+
+  const selected = fields.split(',');
+  const selectedRelations = selected
+    .filter((field) => field.startsWith('expand.'))
+    .map((field) => field.split('.')[1]);
+  const expanded = expand ? expand.split(',').map((path) => path.split('.')[0]) : [];
+
+  if (expanded.length && !selected.includes('*') && !selectedRelations.length) {
+    throw new PocketbaseQueryError(
+      `fields must select "*" or expand.* fields, otherwise the expanded relations (${expand}) are dropped`
+    );
+  }
+
+  const missing = selectedRelations.find((relation) => !expanded.includes(relation));
+  if (missing) {
+    throw new PocketbaseQueryError(
+      `fields selects expand.${missing} but the relation ${missing} is not expanded`
+    );
+  }
+}
@@ -0,0 +1,160 @@
+import PocketbaseQuery, {
+  negate,
+  OperatorEnum,
+  parseFilter,
+  PocketbaseQueryError,
+  SchemaCollection,
+} from '.';
+
+interface Post {
+  title: string;
+  status: string;
+  views: number;
+  published: boolean;
+  tags: string[];
+}
+
+const collections: SchemaCollection[] = [
+  {
+    id: 'pbc_posts',
+    name: 'posts',
+    type: 'base',
+    fields: [
+      { name: 'title', type: 'text' },
+      { name: 'tags', type: 'select', maxSelect: 5, values: ['x', 'y'] },
+      { name: 'author', type: 'relation', maxSelect: 1, collectionId: 'pbc_users' },
+      { name: 'editors', type: 'relation', maxSelect: 3, collectionId: 'pbc_users' },
+    ],
+  },
+  {
+    id: 'pbc_users',
+    name: 'users',
+    type: 'base',
+    fields: [{ name: 'name', type: 'text' }],
+  },
+];
+
+const negated = (filter: string) =>
+  PocketbaseQuery.create<any>()
+    .not((query) => query.customFilter(filter))
+    .build();
+
+describe('Negation', () => {
+  test('should flip every operator to its complement', () => {
+    const cases: [string, string][] = [
+      ['a="x"', 'a!="x"'],
+      ['a!="x"', 'a="x"'],
+      ['a>1', 'a<=1'],
+      ['a>=1', 'a<1'],
+      ['a<1', 'a>=1'],
+      ['a<=1', 'a>1'],
+      ['a~"x"', 'a!~"x"'],
+      ['a!~"x"', 'a~"x"'],
+      ['a?="x"', 'a:each!="x"'],
+      ['a?!="x"', 'a:each="x"'],
+      ['a?>1', 'a:each<=1'],
+      ['a?>=1', 'a:each<1'],
+      ['a?<1', 'a:each>=1'],
+      ['a?<=1', 'a:each>1'],
+      ['a?~"x"', 'a:each!~"x"'],
+      ['a?!~"x"', 'a:each~"x"'],
+    ];
+
+    expect(cases).toHaveLength(Object.values(OperatorEnum).length);
+    cases.forEach(([filter, expected]) => expect(negated(filter)).toBe(expected));
+  });
+
+  test('should apply De Morgan laws', () => {
+    const filter = PocketbaseQuery.create<Post>()
+      .equal('published', true)
+      .and()
+      .not((query) => query.equal('status', 'draft').or().lessThan('views', 10))
+      .build();
+
+    expect(filter).toBe('published=true && status!="draft" && views>=10');
+    expect(negated('a=1 && b=2')).toBe('a!=1 || b!=2');
+    expect(negated('a=1 || b=2 && c=3')).toBe('a!=1 && (b!=2 || c!=3)');
+  });
+
+  test('should keep the precedence of the negated expression', () => {
+    const filter = PocketbaseQuery.create<Post>()
+      .equal('published', true)
+      .and()
+      .not((query) => query.equal('status', 'draft').and().anyEqual('tags', 'old'))
+      .build();
+
+    expect(filter).toBe('published=true && (status!="draft" || tags:each!="old")');
+    expect(negated('(a=1 || b=2) && c=3')).toBe('(a!=1 && b!=2) || c!=3');
+  });
+
+  test('should negate :each conditions with the any-item complement', () => {
+    expect(negated('tags:each~"a"')).toBe('tags?!~"a"');
+    expect(negated('tags:length>2')).toBe('tags:length<=2');
+  });
+
+  test('should match the records the any-item condition does not', () => {
+    const query = PocketbaseQuery.create<Post>().anyEqual('tags', 'x');
+    const negation = PocketbaseQuery.create<Post>().not((q) => q.anyEqual('tags', 'x'));
+    const records = [{ tags: ['x', 'y'] }, { tags: ['y'] }, { tags: ['x'] }, { tags: [] }];
+
+    records.forEach((record) => expect(negation.matches(record)).toBe(!query.matches(record)));
+  });
+
+  test('should negate conditions on multiple fields with the any-item complement', () => {
+    const query = PocketbaseQuery.create<any>({ schema: { collection: 'posts', collections } });
+    const filter = (source: string) => query.not((q) => q.customFilter(source)).build();
+
+    expect(filter('tags="x"')).toBe('tags?!="x"');
+    expect(filter('editors.name~"a"')).toBe('editors.name?!~"a"');
+    expect(filter('title=editors.name')).toBe('title?!=editors.name');
+    expect(filter('author.name="a" && tags:length>1')).toBe('author.name!="a" || tags:length<=1');
+    expect(negated('comments_via_post.text="x"')).toBe('comments_via_post.text?!="x"');
+    expect(negated('tags="x"')).toBe('tags!="x"');
+  });
+
+  test('should match the records the condition on a multiple field does not', () => {
+    const options = { schema: { collection: 'posts', collections } };
+    const query = PocketbaseQuery.create<Post>(options).equal('tags', 'x');
+    const negation = PocketbaseQuery.create<Post>(options).not((q) => q.equal('tags', 'x'));
+    const records = [{ tags: ['x', 'y'] }, { tags: ['y'] }, { tags: ['x'] }];
+
+    records.forEach((record) => expect(negation.matches(record)).toBe(!query.matches(record)));
+  });
+
+  test('should negate any-item conditions on a literal with the complement', () => {
+    expect(negated('"x"?=tags')).toBe('"x"!=tags');
+    expect(negated('1=1')).toBe('1!=1');
+  });
+
+  test('should negate expression trees', () => {
+    const node = parseFilter('status="draft" || views>100');
+
+    expect(negate(node!)).toEqual({
+      type: 'logical',
+      operator: '&&',
+      children: [
+        { type: 'condition', field: 'status', operator: '!=', value: 'draft' },
+        { type: 'condition', field: 'views', operator: '<=', value: 100 },
+      ],
+    });
+  });
+
+  test('should throw for conditions without an exact negation', () => {
+    expect(() => negated('views>null')).toThrow(
+      'Cannot negate views>null: comparisons with null never match, so the condition has no exact negation'
+    );
+    expect(() => negated('tags:lower?="x"')).toThrow(
+      'Cannot negate tags:lower?="x": the field already has a modifier, so the condition has no exact negation'
+    );
+    expect(() =>
+      PocketbaseQuery.create<any>().not((query) => query.customFilter('a=1 &&'))
+    ).toThrow(PocketbaseQueryError);
+  });
+
+  test('should report an empty negation', () => {
+    const query = PocketbaseQuery.create<Post>().not((q) => q.equal('status', ''));
+
+    expect(query.getWarnings().map((issue) => issue.code)).toEqual(['EMPTY_VALUE', 'EMPTY_GROUP']);
+    expect(query.build()).toBe('');
+  });
+});
@@ -0,0 +1,141 @@
+import { ConditionNode, FilterNode, renderNode } from './ast';
+import { PocketbaseQueryError } from './errors';
+import { OperatorType } from './operators';
+import { parseFilter, parseLiteral } from './parser';
+import { holdsMultipleValues, QuerySchema } from './schema';
+import { Identifier, serializeValue } from './values';
+
+/**
+ * An operator comparing a single value, without the any-item `?` prefix.
+ */
+export type Comparison = Exclude<OperatorType, `?${string}`>;
+
+/**
+ * The complement of every comparison: the operator matching the values the other one does not.
+ * The any-item `?` operators have no such complement, since `tags?!="x"` still matches
+ * a record whose tags hold `"x"` among other values.
+ */
+export const COMPLEMENTS: Record<Comparison, Comparison> = {
+  '=': '!=',
+  '!=': '=',
+  '>': '<=',
+  '>=': '<',
+  '<': '>=',
+  '<=': '>',
+  '~': '!~',
+  '!~': '~',
+};
+
+/**
+ * Options of {@link negate}.
+ */
+export interface NegateOptions {
+  /**
+   * The collection the expression filters and the schema, telling which fields hold
+   * multiple values. Without it, only paths through a back-relation are known to.
+   */
+  schema?: QuerySchema;
+}
+
+const ORDERING_OPERATORS = ['>', '>=', '<', '<='];
+const EACH_PATTERN = /^(.+):each$/;
+const MODIFIER_PATTERN = /:(isset|changed|length|each|lower)$/;
+const SINGLE_MODIFIER_PATTERN = /:(isset|changed|length)$/;
+const BACK_RELATION_PATTERN = /^.+_via_.+$/;
+
+/**
+ * Negates an expression tree, since PocketBase filters have no `NOT`: every
+ * operator is flipped to its complement and `&&`/`||` are swapped following
+ * De Morgan's laws. Custom filter fragments are parsed to be negated as well.
+ *
+ * Operators without `?` must hold for every item of a multiple field, so on
+ * fields known to hold multiple values their negation is the any-item complement,
+ * e.g. `tags="x"` becomes `tags?!="x"`. Fields are known to from the schema, or
+ * when their path goes through a back-relation; other fields are negated as
+ * single values.
+ *
+ * @example
+ * renderNode(negate(parseFilter('status="draft" || views>100')), serializeValue);
+ * // status!="draft" && views<=100
+ *
+ * @param {FilterNode} node - The expression to negate.
+ * @param {NegateOptions} options - The schema telling which fields hold multiple values.
+ * @returns {FilterNode} The negated expression.
+ * @throws {PocketbaseQueryError} When a condition has no exact negation, or a fragment cannot be parsed.
+ */
+export function negate(node: FilterNode, options: NegateOptions = {}): FilterNode {
+  switch (node.type) {
+    case 'condition':
+      return negateCondition(node, options);
+    case 'raw': {
+      const filter = renderNode(node, serializeValue);
+      let parsed: FilterNode | null;
+      try {
+        parsed = parseFilter(filter);
+      } catch (error) {
+        throw new PocketbaseQueryError(
+          `Cannot negate the custom filter ${JSON.stringify(filter)}: ${(error as Error).message}`
+        );
+      }
+      if (!parsed) throw new PocketbaseQueryError('Cannot negate an empty custom filter');
+      return negate(parsed, options);
+    }
+    case 'group':
+      return { type: 'group', child: negate(node.child, options) };
+    case 'logical':
+      return {
+        type: 'logical',
+        operator: node.operator === '&&' ? '||' : '&&',
+        children: node.children.map((child) => negate(child, options)),
+      };
+  }
+}
+
+/**
+ * Flips the operator of a condition. A condition with `:each`, or without `?` on
+ * multiple values, holds for every item, so its negation holds for any item and
+ * uses the `?` complement instead. Conversely, an any-item `?` condition is negated
+ * with `:each` and the complement, or the plain complement for a literal left operand.
+ */
+function negateCondition(node: ConditionNode, options: NegateOptions): ConditionNode {
+  const comparison = node.operator.replace('?', '') as Comparison;
+  const fail = (reason: string) =>
+    new PocketbaseQueryError(
+      `Cannot negate ${renderNode(node, serializeValue)}: ${reason}, ` +
+        'so the condition has no exact negation'
+    );
+  if (ORDERING_OPERATORS.includes(comparison) && node.value === null) {
+    throw fail('comparisons with null never match');
+  }
+
+  const each = EACH_PATTERN.exec(node.field);
+  if (each) {
+    const operator = `?${COMPLEMENTS[comparison]}` as OperatorType;
+    return { ...node, field: each[1], operator };
+  }
+  const literal = parseLiteral(node.field);
+  if (node.operator.startsWith('?')) {
+    if (literal) return { ...node, operator: COMPLEMENTS[comparison] };
+    if (MODIFIER_PATTERN.test(node.field)) throw fail('the field already has a modifier');
+    return { ...node, field: `${node.field}:each`, operator: COMPLEMENTS[comparison] };
+  }
+
+  const operands = [
+    literal ? undefined : node.field,
+    node.value instanceof Identifier ? node.value.name : undefined,
+  ];
+  const multiple = operands.some((operand) => operand && holdsMultiple(operand, options));
+  const operator = multiple ? `?${COMPLEMENTS[comparison]}` : COMPLEMENTS[comparison];
+  return { ...node, operator: operator as OperatorType };
+}
+
+/**
+ * Checks whether an operand holds multiple values. `@` references and macros, and
+ * modifiers reading a single value such as `:length`, are single values.
+ */
+function holdsMultiple(operand: string, { schema }: NegateOptions): boolean {
+  if (operand.startsWith('@') || SINGLE_MODIFIER_PATTERN.test(operand)) return false;
+  const path = operand.replace(MODIFIER_PATTERN, '');
+  if (path.split('.').some((segment) => BACK_RELATION_PATTERN.test(segment))) return true;
+  return schema ? holdsMultipleValues(path, schema) : false;
+}
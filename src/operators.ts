@@ -0,0 +1,28 @@
+/**
+ * Comparison operators supported by PocketBase filter expressions.
+ */
+export enum OperatorEnum {
+  Equal = '=',
+  NotEqual = '!=',
+  GreaterThan = '>',
+  GreaterThanOrEqual = '>=',
+  LessThan = '<',
+  LessThanOrEqual = '<=',
+  Like = '~',
+  NotLike = '!~',
+  AnyEqual = '?=',
+  AnyNotEqual = '?!=',
+  AnyGreaterThan = '?>',
+  AnyGreaterThanOrEqual = '?>=',
+  AnyLessThan = '?<',
+  AnyLessThanOrEqual = '?<=',
+  AnyLike = '?~',
+  AnyNotLike = '?!~',
+}
+
+export type OperatorType = `${OperatorEnum}`;
+
+/**
+ * Logical operators joining two expressions.
+ */
+export type LogicalOperator = '&&' | '||';
@@ -0,0 +1,167 @@
+import PocketbaseQuery, {
+  FilterParseError,
+  Identifier,
+  OperatorEnum,
+  parseFilter,
+  parseLiteral,
+} from '.';
+
+describe('parseFilter', () => {
+  test('should parse every comparison operator', () => {
+    Object.values(OperatorEnum).forEach((operator) => {
+      expect(parseFilter(`tags${operator}"a"`)).toEqual({
+        type: 'condition',
+        field: 'tags',
+        operator,
+        value: 'a',
+      });
+    });
+  });
+
+  test('should parse literal values', () => {
+    const values = [
+      ['"text"', 'text'],
+      ["'text'", 'text'],
+      ['42', 42],
+      ['-1.5', -1.5],
+      ['true', true],
+      ['false', false],
+      ['null', null],
+    ];
+
+    values.forEach(([literal, value]) => {
+      expect(parseFilter(`field = ${literal}`)).toMatchObject({ value });
+    });
+  });
+
+  test('should unescape quotes inside strings', () => {
+    expect(parseFilter('title="say \\"hi\\""')).toMatchObject({ value: 'say "hi"' });
+    expect(parseFilter("title='it\\'s'")).toMatchObject({ value: "it's" });
+  });
+
+  test('should parse macros and field references as identifiers', () => {
+    expect(parseFilter('created > @now')).toMatchObject({ value: new Identifier('@now') });
+    expect(parseFilter('owner = @request.auth.id')).toMatchObject({
+      value: new Identifier('@request.auth.id'),
+    });
+    expect(parseFilter('@collection.users:u.id ?= author')).toMatchObject({
+      field: '@collection.users:u.id',
+      operator: '?=',
+      value: new Identifier('author'),
+    });
+  });
+
+  test('should parse literals on the left-hand side', () => {
+    expect(parseFilter('1=1')).toEqual({ type: 'condition', field: '1', operator: '=', value: 1 });
+    expect(parseFilter("'admin' = @request.auth.role")).toEqual({
+      type: 'condition',
+      field: '"admin"',
+      operator: '=',
+      value: new Identifier('@request.auth.role'),
+    });
+    expect(parseFilter('true=false')).toMatchObject({ field: 'true', value: false });
+    expect(parseLiteral('"admin"')).toEqual({ value: 'admin' });
+    expect(parseLiteral('null')).toEqual({ value: null });
+    expect(parseLiteral('author.name')).toBeUndefined();
+  });
+
+  test('should give && precedence over ||', () => {
+    expect(parseFilter('a=1 || b=2 && c=3')).toEqual({
+      type: 'logical',
+      operator: '||',
+      children: [
+        { type: 'condition', field: 'a', operator: '=', value: 1 },
+        {
+          type: 'logical',
+          operator: '&&',
+          children: [
+            { type: 'condition', field: 'b', operator: '=', value: 2 },
+            { type: 'condition', field: 'c', operator: '=', value: 3 },
+          ],
+        },
+      ],
+    });
+  });
+
+  test('should parse parenthesized groups', () => {
+    expect(parseFilter('(a=1 || b=2) && c=3')).toMatchObject({
+      type: 'logical',
+      operator: '&&',
+      children: [
+        { type: 'group', child: { type: 'logical', operator: '||' } },
+        { type: 'condition', field: 'c' },
+      ],
+    });
+  });
+
+  test('should return null for an empty filter', () => {
+    expect(parseFilter('   ')).toBeNull();
+  });
+
+  test('should report the position of parse errors', () => {
+    const cases: [string, number][] = [
+      ['status="active" &&', 18],
+      ['status "active"', 7],
+      ['(status="active"', 16],
+      ['status="active', 7],
+      ['status=', 7],
+      ['status="a" # x', 11],
+      ['() && a=1', 1],
+    ];
+
+    cases.forEach(([filter, position]) => {
+      try {
+        parseFilter(filter);
+        throw new Error(`expected ${filter} to fail`);
+      } catch (error) {
+        expect(error).toBeInstanceOf(FilterParseError);
+        expect((error as FilterParseError).position).toBe(position);
+      }
+    });
+  });
+
+  test('should describe the unexpected token', () => {
+    expect(() => parseFilter('status="a" && && b=1')).toThrow(
+      'Expected a field name, a value or "(", found "&&" at position 14'
+    );
+  });
+});
+
+describe('PocketbaseQuery.parse', () => {
+  test('should round-trip filters', () => {
+    const filters = [
+      'status="active" && comments>50',
+      '(title~"test" || content~"test") && notebook!="trash"',
+      'a=1 || b=2 && c=3',
+      'created>=@todayStart && owner=@request.auth.id && deleted=null',
+      'tags?!~"spam" && title="say \\"hi\\""',
+      '1=1 || "admin"=@request.auth.role && true!=false',
+    ];
+
+    filters.forEach((filter) => {
+      expect(PocketbaseQuery.parse(filter).build()).toBe(filter);
+    });
+  });
+
+  test('should normalize quotes and spacing', () => {
+    expect(PocketbaseQuery.parse("status = 'active'   &&  views >= 10").build()).toBe(
+      'status="active" && views>=10'
+    );
+  });
+
+  test('should allow extending a parsed filter', () => {
+    const result = PocketbaseQuery.parse<{ status: string; owner: string }>('status="a" || status="b"')
+      .and()
+      .equal('owner', 'user1')
+      .build();
+
+    expect(result).toBe('(status="a" || status="b") && owner="user1"');
+  });
+
+  test('should keep identifiers inline in parameter mode', () => {
+    expect(PocketbaseQuery.parse('created>@now && title="x"').build({ params: true })).toEqual({
+      filter: 'created>@now && title={:p0}',
+      params: { p0: 'x' },
+    });
+  });
+});
@@ -0,0 +1,230 @@
+import { and, FilterNode, or } from './ast';
+import { FilterParseError } from './errors';
+import { LogicalOperator, OperatorEnum, OperatorType } from './operators';
+import { FilterValue, Identifier, serializeValue } from './values';
+
+type TokenType = 'identifier' | 'string' | 'number' | 'operator' | 'join' | 'open' | 'close' | 'end';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  position: number;
+}
+
+// longest operators first, so `?!=` is not read as `?` followed by `!=`
+const OPERATORS = (Object.values(OperatorEnum) as string[]).sort((a, b) => b.length - a.length);
+
+const IDENTIFIER_START = /[@\w]/;
+const IDENTIFIER_PART = /[\w.:@]/;
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?/;
+
+/**
+ * Splits a filter string into tokens, keeping the position of each one.
+ */
+function tokenize(filter: string): Token[] {
+  const tokens: Token[] = [];
+  let position = 0;
+
+  while (position < filter.length) {
+    const char = filter[position];
+    const start = position;
+
+    if (/\s/.test(char)) {
+      position++;
+      continue;
+    }
+
+    if (filter.startsWith('//', position)) {
+      while (position < filter.length && filter[position] !== '\n') position++;
+      continue;
+    }
+
+    if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'open' : 'close', text: char, position });
+      position++;
+      continue;
+    }
+
+    if (filter.startsWith('&&', position) || filter.startsWith('||', position)) {
+      tokens.push({ type: 'join', text: filter.slice(position, position + 2), position });
+      position += 2;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let text = '';
+      position++;
+      while (position < filter.length && !(filter[position] === char && filter[position - 1] !== '\\')) {
+        text += filter[position];
+        position++;
+      }
+      if (position >= filter.length) throw new FilterParseError('Unterminated string', start);
+      position++;
+      tokens.push({ type: 'string', text: text.split(`\\${char}`).join(char), position: start });
+      continue;
+    }
+
+    const number = NUMBER_PATTERN.exec(filter.slice(position));
+    if (number && !IDENTIFIER_PART.test(filter[position + number[0].length] ?? '')) {
+      tokens.push({ type: 'number', text: number[0], position });
+      position += number[0].length;
+      continue;
+    }
+
+    const operator = OPERATORS.find((candidate) => filter.startsWith(candidate, position));
+    if (operator) {
+      tokens.push({ type: 'operator', text: operator, position });
+      position += operator.length;
+      continue;
+    }
+
+    if (IDENTIFIER_START.test(char)) {
+      while (position < filter.length && IDENTIFIER_PART.test(filter[position])) position++;
+      tokens.push({ type: 'identifier', text: filter.slice(start, position), position: start });
+      continue;
+    }
+
+    throw new FilterParseError(`Unexpected character ${JSON.stringify(char)}`, position);
+  }
+
+  tokens.push({ type: 'end', text: '', position: filter.length });
+  return tokens;
+}
+
+/**
+ * Recursive descent parser over the token list.
+ * `||` has the lowest precedence, then `&&`, then parenthesized groups and conditions.
+ */
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): FilterNode | null {
+    if (this.peek().type === 'end') return null;
+    const node = this.parseJoined('||');
+    this.expect('end', 'Expected "&&", "||" or the end of the filter');
+    return node;
+  }
+
+  private peek() {
+    return this.tokens[this.index];
+  }
+
+  private next() {
+    return this.tokens[this.index++];
+  }
+
+  private expect(type: TokenType, message: string) {
+    const token = this.next();
+    if (token.type !== type) throw this.unexpected(token, message);
+    return token;
+  }
+
+  private unexpected(token: Token, message: string) {
+    const found = token.type === 'end' ? 'end of filter' : JSON.stringify(token.text);
+    return new FilterParseError(`${message}, found ${found}`, token.position);
+  }
+
+  private parseJoined(operator: LogicalOperator): FilterNode {
+    const parseOperand = () => (operator === '||' ? this.parseJoined('&&') : this.parsePrimary());
+    const children = [parseOperand()];
+
+    while (this.peek().type === 'join' && this.peek().text === operator) {
+      this.next();
+      children.push(parseOperand());
+    }
+
+    if (children.length === 1) return children[0];
+    return operator === '||' ? or(...children) : and(...children);
+  }
+
+  private parsePrimary(): FilterNode {
+    const token = this.next();
+
+    if (token.type === 'open') {
+      if (this.peek().type === 'close') throw this.unexpected(this.peek(), 'Expected an expression');
+      const child = this.parseJoined('||');
+      this.expect('close', 'Expected ")"');
+      return { type: 'group', child };
+    }
+
+    if (token.type !== 'identifier' && token.type !== 'string' && token.type !== 'number') {
+      throw this.unexpected(token, 'Expected a field name, a value or "("');
+    }
+
+    // a literal on the left-hand side is kept as its rendered text, see `parseLiteral`
+    const left = this.readValue(token);
+    const field = left instanceof Identifier ? left.name : serializeValue(left);
+    const operator = this.expect('operator', 'Expected a comparison operator').text as OperatorType;
+    return { type: 'condition', field, operator, value: this.parseValue() };
+  }
+
+  private parseValue(): FilterValue {
+    return this.readValue(this.next());
+  }
+
+  private readValue(token: Token): FilterValue {
+    switch (token.type) {
+      case 'string':
+        return token.text;
+      case 'number':
+        return Number(token.text);
+      case 'identifier':
+        if (token.text === 'true') return true;
+        if (token.text === 'false') return false;
+        if (token.text === 'null') return null;
+        return new Identifier(token.text);
+      default:
+        throw this.unexpected(token, 'Expected a value');
+    }
+  }
+}
+
+/**
+ * Parses a PocketBase filter expression into an expression tree.
+ *
+ * Supports every comparison operator, quoted strings (single or double quotes),
+ * numbers, `null`, `true`/`false`, identifiers such as other fields and `@macros`
+ * on either side, parenthesized groups and `&&`/`||` with `&&` binding tighter.
+ * A literal on the left-hand side, as in `"admin"=@request.auth.role`, becomes the
+ * `field` of the condition as rendered text, see {@link parseLiteral}.
+ *
+ * @example
+ * parseFilter('status="active" && (views>10 || featured=true)');
+ *
+ * @param {string} filter - The filter expression.
+ * @returns {FilterNode | null} The root of the expression tree, or `null` for an empty filter.
+ * @throws {FilterParseError} When the filter is not a valid expression.
+ */
+export function parseFilter(filter: string): FilterNode | null {
+  return new Parser(tokenize(filter)).parse();
+}
+
+/**
+ * Reads the left-hand side of a condition as a literal, for conditions such as `1=1`
+ * or `"admin"=@request.auth.role` whose `field` holds a rendered value.
+ *
+ * @example
+ * parseLiteral('"admin"'); // { value: "admin" }
+ * parseLiteral("author.name"); // undefined
+ *
+ * @param {string} operand - The left-hand side of a condition.
+ * @returns {{ value: FilterValue } | undefined} The literal value, or `undefined` for a field, reference or macro.
+ */
+export function parseLiteral(operand: string): { value: FilterValue } | undefined {
+  let tokens: Token[];
+  try {
+    tokens = tokenize(operand);
+  } catch {
+    return undefined;
+  }
+  const [token, end] = tokens;
+  if (tokens.length !== 2 || end.type !== 'end') return undefined;
+  if (token.type === 'string') return { value: token.text };
+  if (token.type === 'number') return { value: Number(token.text) };
+  if (token.type === 'identifier' && ['true', 'false', 'null'].includes(token.text)) {
+    return { value: JSON.parse(token.text) };
+  }
+  return undefined;
+}
@@ -0,0 +1,247 @@
+import PocketbaseQuery, { identifier, ref, ValidPath } from '.';
+
+interface Profile {
+  city: string;
+}
+
+interface User {
+  name: string;
+  profile: string;
+  expand?: { profile?: Profile; posts_via_author?: Post[] };
+}
+
+interface Comment {
+  text: string;
+  post: string;
+}
+
+interface Post {
+  title: string;
+  author: string;
+  expand?: { author?: User; comments_via_post?: Comment[] };
+}
+
+describe('Relation Paths', () => {
+  test('should accept dotted paths through relations', () => {
+    const result = PocketbaseQuery.create<Post>()
+      .equal('author.name', 'Ada')
+      .and()
+      .equal('author.profile.city', 'London')
+      .build();
+
+    expect(result).toBe('author.name="Ada" && author.profile.city="London"');
+  });
+
+  test('should accept back-relation paths', () => {
+    const result = PocketbaseQuery.create<Post>()
+      .anyLike('comments_via_post.text', 'great')
+      .or()
+      .equal('author.posts_via_author.title', 'Hello')
+      .build();
+
+    expect(result).toBe('comments_via_post.text?~"great" || author.posts_via_author.title="Hello"');
+  });
+
+  test('should reject unknown fields and relations at compile time', () => {
+    const path = <P extends string>(path: ValidPath<Post, P>) => path;
+    const paths = [
+      path('title'),
+      path('author'),
+      path('author.profile.city'),
+      path('comments_via_post.post'),
+    ];
+    // @ts-expect-error title is not a relation
+    const notARelation = path('title.name');
+    // @ts-expect-error Profile has no name field
+    const unknownField = path('author.profile.name');
+    // @ts-expect-error expand holds the relations, it is not a field
+    const expand = path('expand');
+    // @ts-expect-error the builder checks its fields the same way
+    PocketbaseQuery.create<Post>().equal('author.nmae', 'Ada');
+
+    expect(paths).toHaveLength(4);
+    expect([notARelation, unknownField, expand]).toHaveLength(3);
+  });
+
+  test('should limit the depth of cyclic relations', () => {
+    const path = 'author.posts_via_author.author.posts_via_author.author.name';
+    const query = PocketbaseQuery.create<Post>();
+
+    expect(query.equal(path, 'Ada').build()).toBe(`${path}="Ada"`);
+    // @ts-expect-error paths go through at most six relations
+    query.equal('author.posts_via_author.author.posts_via_author.author.posts_via_author.author.name', 'Ada');
+  });
+
+  test('should check the first segment of paths given an explicit record type', () => {
+    expect(ref<Post>('author.profile.city').name).toBe('author.profile.city');
+    // @ts-expect-error autor is not a field of posts
+    expect(ref<Post>('autor.name').name).toBe('autor.name');
+  });
+});
+
+// shaped like the output of `generateTypes`: every relation has a back-relation,
+// so each collection reaches every other one through several cycles
+interface UsersRecord {
+  name: string;
+  team: string;
+  manager: string;
+  expand?: {
+    team?: TeamsRecord;
+    manager?: UsersRecord;
+    users_via_manager?: UsersRecord[];
+    teams_via_lead?: TeamsRecord[];
+    projects_via_owner?: ProjectsRecord[];
+    tasks_via_assignee?: TasksRecord[];
+  };
+}
+
+interface TeamsRecord {
+  name: string;
+  lead: string;
+  project: string;
+  expand?: {
+    lead?: UsersRecord;
+    project?: ProjectsRecord;
+    users_via_team?: UsersRecord[];
+    projects_via_team?: ProjectsRecord[];
+  };
+}
+
+interface ProjectsRecord {
+  title: string;
+  owner: string;
+  team: string;
+  expand?: {
+    owner?: UsersRecord;
+    team?: TeamsRecord;
+    teams_via_project?: TeamsRecord[];
+    tasks_via_project?: TasksRecord[];
+  };
+}
+
+interface TasksRecord {
+  title: string;
+  done: boolean;
+  assignee: string;
+  project: string;
+  expand?: { assignee?: UsersRecord; project?: ProjectsRecord };
+}
+
+describe('Cyclic Schemas', () => {
+  test('should check paths through relations pointing back at each other', () => {
+    const query = PocketbaseQuery.create<TasksRecord>()
+      .equal('title', 'x')
+      .and()
+      .equal('project.team.lead.manager.name', 'Ada')
+      .and()
+      .anyEqual('project.teams_via_project.users_via_team.team.lead.name', 'Bob')
+      .and()
+      .like('assignee.projects_via_owner.title', 'api');
+
+    expect(query.build()).toBe(
+      'title="x" && project.team.lead.manager.name="Ada" && ' +
+        'project.teams_via_project.users_via_team.team.lead.name?="Bob" && ' +
+        'assignee.projects_via_owner.title~"api"'
+    );
+    // @ts-expect-error teams have no title
+    query.equal('project.team.title', 'x');
+    // @ts-expect-error done is a boolean field
+    query.equal('assignee.tasks_via_assignee.done', 'yes');
+  });
+});
+
+interface Task {
+  title: string;
+  status: 'todo' | 'done';
+  points: number;
+  urgent: boolean;
+  due: string;
+  labels: string[];
+  scores: number[];
+  assignees: string[];
+  expand?: { assignees?: User[] };
+}
+
+describe('Field Types', () => {
+  const task = () => PocketbaseQuery.create<Task>();
+
+  test('should accept values matching the field type', () => {
+    const result = task()
+      .equal('status', 'done')
+      .and()
+      .greaterThan('points', 3)
+      .and()
+      .lessThan('points', '10')
+      .and()
+      .equal('urgent', true)
+      .and()
+      .lessThan('due', new Date(Date.UTC(2024, 0, 1)))
+      .and()
+      .notEqual('title', null)
+      .build();
+
+    expect(result).toBe(
+      'status="done" && points>3 && points<"10" && urgent=true && due<"2024-01-01 00:00:00.000Z" && title!=null'
+    );
+  });
+
+  test('should reject values not matching the field type at compile time', () => {
+    const query = task();
+    // @ts-expect-error status only accepts its select values
+    query.equal('status', 'archived');
+    // @ts-expect-error points is a number field
+    query.greaterThan('points', 'many');
+    // @ts-expect-error urgent is a boolean field
+    query.equal('urgent', 'yes');
+    // @ts-expect-error title is a text field
+    query.equal('title', 42);
+
+    expect(query.build()).toBe(
+      'status="archived" && points>"many" && urgent="yes" && title=42'
+    );
+  });
+
+  test('should only accept array fields for any operators', () => {
+    const result = task()
+      .anyEqual('labels', 'bug')
+      .and()
+      .anyGreaterThan('scores', 5)
+      .and()
+      .anyLike('assignees.name', 'ada')
+      .build();
+
+    expect(result).toBe('labels?="bug" && scores?>5 && assignees.name?~"ada"');
+
+    const query = task();
+    // @ts-expect-error status is not an array field
+    query.anyEqual('status', 'x');
+    // @ts-expect-error scores holds numbers
+    query.anyEqual('scores', 'x');
+    // @ts-expect-error scores does not hold text
+    query.anyLike('scores', '5');
+    expect(query.getWarnings()).toEqual([]);
+  });
+
+  test('should only accept text fields for like', () => {
+    expect(task().like('title', 'x').and().like('labels', 'bug').build()).toBe(
+      'title~"x" && labels~"bug"'
+    );
+
+    const query = task();
+    // @ts-expect-error points is a number field
+    query.like('points', '1');
+    // @ts-expect-error urgent is a boolean field
+    query.notLike('urgent', 'true');
+    expect(query.getWarnings()).toEqual([]);
+  });
+
+  test('should accept any value for untyped records and identifiers', () => {
+    const result = PocketbaseQuery.create<any>()
+      .anyEqual('whatever', 1)
+      .and()
+      .equal(identifier('@request.auth.points'), 'many')
+      .build();
+
+    expect(result).toBe('whatever?=1 && @request.auth.points="many"');
+  });
+});
@@ -0,0 +1,189 @@
+import { FilterValue, Identifier } from './values';
+
+/**
+ * The maximum number of relations a typed field path goes through.
+ */
+type PathDepth = [never, 0, 1, 2, 3, 4, 5];
+
+/**
+ * The record type of a relation: the element type of multiple relations, the record otherwise.
+ */
+export type RelatedRecord<R> = NonNullable<R> extends (infer U)[] ? U : NonNullable<R>;
+
+/**
+ * The element type of an array, the type itself otherwise.
+ */
+type Element<V> = V extends readonly (infer U)[] ? U : V;
+
+/**
+ * The relations of `T`, described by its `expand` property the same way the
+ * PocketBase SDK types expanded records, e.g.
+ * `{ author: User; comments_via_post: Comment[] }`.
+ */
+export type Relations<T> = T extends { expand?: infer E } ? NonNullable<E> : never;
+
+/**
+ * The fields of `T` that can end a path: every key but `expand`.
+ */
+type Fields<T> = Exclude<Extract<keyof T, string>, 'expand'>;
+
+/**
+ * The relations of `T` that a path can go through.
+ */
+type RelationNames<T> = Extract<keyof Relations<T>, string>;
+
+/**
+ * Checks the field path `P` of `T`: a field of `T`, or a dotted path through its
+ * relations and back-relations, e.g. `author.profile.city` or `comments_via_post.text`.
+ *
+ * Relations are read from the `expand` property of `T`, up to six levels deep.
+ * Only the segments of `P` are walked, so relations pointing back at each other
+ * cost nothing. The type is `P` when the path is valid; otherwise it lists the
+ * fields and relations where the path went wrong, which editors offer as completions.
+ *
+ * @example
+ * function field<P extends string>(path: ValidPath<Post, P>) {}
+ * field("author.profile.city"); // ok
+ * field("author.profile.name"); // error: expected "author.profile.city" | ...
+ */
+export type ValidPath<T, P extends string> = 0 extends 1 & T ? P : CheckPath<T, P, P, '', 6>;
+
+type CheckPath<
+  T,
+  Rest extends string,
+  P extends string,
+  Prefix extends string,
+  Depth extends number,
+> = 0 extends 1 & T
+  ? P
+  : Rest extends Fields<T>
+    ? P
+    : Rest extends `${infer K}.${infer Next}`
+      ? K extends RelationNames<T>
+        ? [PathDepth[Depth]] extends [never]
+          ? `${Prefix}${Fields<T>}`
+          : CheckPath<RelatedRecord<Relations<T>[K]>, Next, P, `${Prefix}${K}.`, PathDepth[Depth]>
+        : PathCompletion<T, Prefix>
+      : PathCompletion<T, Prefix>;
+
+/**
+ * The paths of `T` starting with `Prefix`: its fields, and anything below its relations.
+ */
+type PathCompletion<T, Prefix extends string> =
+  | `${Prefix}${Fields<T>}`
+  | `${Prefix}${RelationNames<T>}.${string}`;
+
+/**
+ * The left-hand side `F` of a condition on `T`: a field path checked with
+ * {@link ValidPath}, or an identifier such as a `@request`/`@collection` reference
+ * or a field with a modifier.
+ */
+export type FieldOperand<T, F> = F extends string ? ValidPath<T, F> : F;
+
+/**
+ * The type of the value at a field path of `T`. Paths going through a multiple
+ * relation hold one value per related record, so they are typed as arrays.
+ */
+export type PathValue<T, P extends string> = P extends Extract<keyof T, string>
+  ? T[P]
+  : P extends `${infer K}.${infer Rest}`
+    ? K extends Extract<keyof Relations<T>, string>
+      ? NonNullable<Relations<T>[K]> extends readonly (infer U)[]
+        ? Element<PathValue<U, Rest>>[]
+        : PathValue<NonNullable<Relations<T>[K]>, Rest>
+      : unknown
+    : unknown;
+
+/**
+ * The values a field of type `V` can be compared with, besides identifiers and `null`:
+ * - text fields accept strings and dates (datetime fields are typed as strings);
+ * - select fields typed as a union of literals only accept those literals;
+ * - number fields accept numbers and numeric strings;
+ * - boolean fields accept booleans;
+ * - multiple fields accept the type of their items;
+ * - untyped fields accept any {@link FilterValue}.
+ */
+type ScalarValue<V> = V extends string
+  ? string extends V
+    ? string | Date
+    : V
+  : V extends number
+    ? number | `${number}`
+    : V extends boolean
+      ? boolean
+      : V extends Date
+        ? Date | string
+        : FilterValue;
+
+/**
+ * The values a field of type `V` can be compared with.
+ */
+export type ComparableValue<V> = 0 extends 1 & V
+  ? FilterValue
+  : unknown extends V
+    ? FilterValue
+    : ScalarValue<Element<NonNullable<V>>> | Identifier | null;
+
+/**
+ * The values the left-hand side `F` of a condition on `T` can be compared with.
+ * Identifiers on the left-hand side, such as rule references, accept any value.
+ */
+export type OperandValue<T, F> = F extends string
+  ? ComparableValue<PathValue<T, F>>
+  : FilterValue;
+
+/**
+ * The left-hand side `F` of a condition on `T` holding an array: a multiple select,
+ * relation or file field, or a path going through a multiple relation.
+ * Identifiers are accepted as they are.
+ */
+export type ArrayPath<T, F> = F extends string
+  ? 0 extends 1 & T
+    ? F
+    : F extends ValidPath<T, F>
+      ? IsArray<PathValue<T, F>> extends true
+        ? F
+        : { [K in Fields<T>]-?: IsArray<T[K]> extends true ? K : never }[Fields<T>]
+      : ValidPath<T, F>
+  : F;
+
+/**
+ * The left-hand side `F` of a condition on `T` holding text, or a list of texts.
+ * Identifiers are accepted as they are.
+ */
+export type TextPath<T, F> = F extends string
+  ? 0 extends 1 & T
+    ? F
+    : F extends ValidPath<T, F>
+      ? IsText<PathValue<T, F>> extends true
+        ? F
+        : { [K in Fields<T>]-?: IsText<T[K]> extends true ? K : never }[Fields<T>]
+      : ValidPath<T, F>
+  : F;
+
+type IsArray<V> = 0 extends 1 & V ? true : NonNullable<V> extends readonly unknown[] ? true : false;
+
+type IsText<V> = 0 extends 1 & V ? true : Element<NonNullable<V>> extends string ? true : false;
+
+/**
+ * The options of `isEmpty()` and `isNotEmpty()`.
+ */
+export interface EmptyCheckOptions {
+  /**
+   * Whether the field holds multiple values, checked with `:length` instead of against `""`.
+   */
+  multiple?: boolean;
+}
+
+/**
+ * The remaining arguments of `isEmpty()` and `isNotEmpty()` for the field `F` of `T`:
+ * array fields must be flagged with `{ multiple: true }`, since the check depends
+ * on a type that is not known at runtime.
+ */
+export type EmptyCheckArgs<T, F> = 0 extends 1 & T
+  ? [options?: EmptyCheckOptions]
+  : F extends string
+    ? IsArray<PathValue<T, F>> extends true
+      ? [options: { multiple: true }]
+      : [options?: { multiple?: false }]
+    : [options?: EmptyCheckOptions];
@@ -89,7 +89,7 @@ describe("PocketbaseQuery", () => {
       .in("color", ["Red", "Blue", "Green"])
       .build();
 
-    expect(query).toBe('color~"Red" || color~"Blue" || color~"Green"');
+    expect(query).toBe('color="Red" || color="Blue" || color="Green"');
   });
 
   it("should create a custom filter query", () => {
@@ -0,0 +1,102 @@
+import PocketbaseQuery, { collection, PocketbaseQueryError, ref, request } from '.';
+
+interface User {
+  name: string;
+  role: string;
+}
+
+interface Post {
+  title: string;
+  owner: string;
+  status: string;
+  tags: string[];
+}
+
+describe('Rule References', () => {
+  test('should render request references', () => {
+    expect(request.auth('id').name).toBe('@request.auth.id');
+    expect(request.auth<User>('role').name).toBe('@request.auth.role');
+    expect(request.body('title').name).toBe('@request.body.title');
+    expect(request.query('page').name).toBe('@request.query.page');
+    expect(request.headers('X-Token').name).toBe('@request.headers.x_token');
+    expect(request.context.name).toBe('@request.context');
+    expect(request.method.name).toBe('@request.method');
+  });
+
+  test('should render collection references with an optional alias', () => {
+    expect(collection('users').field('id').name).toBe('@collection.users.id');
+    expect(collection('users', 'u').field('id').name).toBe('@collection.users:u.id');
+  });
+
+  test('should append modifiers', () => {
+    expect(request.body('role').isset().name).toBe('@request.body.role:isset');
+    expect(request.body('role').changed().name).toBe('@request.body.role:changed');
+    expect(request.body('tags').length().name).toBe('@request.body.tags:length');
+    expect(ref('tags').each().name).toBe('tags:each');
+    expect(ref('title').lower().name).toBe('title:lower');
+  });
+
+  test('should reject invalid modifiers', () => {
+    expect(() => ref('title').isset()).toThrow(
+      ':isset can only be used with @request.body fields, not title'
+    );
+    expect(() => request.auth('verified').changed()).toThrow(PocketbaseQueryError);
+    expect(() => ref('tags').each().lower()).toThrow(
+      'Cannot add :lower to tags:each, it already has a modifier'
+    );
+  });
+});
+
+describe('Rule Mode', () => {
+  test('should build rules with references on both sides', () => {
+    const rule = PocketbaseQuery.rule<Post>()
+      .equal('owner', request.auth('id'))
+      .or()
+      .group((q) =>
+        q
+          .equal(collection('memberships', 'm').field('user'), request.auth('id'))
+          .and()
+          .equal(request.auth('role'), 'editor')
+      )
+      .build();
+
+    expect(rule).toBe(
+      'owner=@request.auth.id || (@collection.memberships:m.user=@request.auth.id && @request.auth.role="editor")'
+    );
+  });
+
+  test('should build rules with modifiers', () => {
+    const rule = PocketbaseQuery.rule<Post>()
+      .equal(request.body('owner').isset(), false)
+      .and()
+      .lessThanOrEqual(request.body('tags').length(), 5)
+      .and()
+      .like(ref('title').lower(), 'draft')
+      .build();
+
+    expect(rule).toBe(
+      '@request.body.owner:isset=false && @request.body.tags:length<=5 && title:lower~"draft"'
+    );
+  });
+
+  test('should reject references passed as strings', () => {
+    expect(() => PocketbaseQuery.rule<Post>().equal('owner', '@request.auth.id')).toThrow(
+      'equal("owner", "@request.auth.id") compares against the quoted string "@request.auth.id"; use request.*, collection() or ref() to reference a field'
+    );
+    expect(() => PocketbaseQuery.rule<Post>().between('status', '@a', 'b')).toThrow(
+      PocketbaseQueryError
+    );
+  });
+
+  test('should keep quoting such strings outside rule mode', () => {
+    expect(PocketbaseQuery.create<Post>().equal('title', '@mention').build()).toBe(
+      'title="@mention"'
+    );
+  });
+
+  test('should reject parameter mode', () => {
+    expect(() =>
+      PocketbaseQuery.rule<Post>().equal('status', 'published').build({ params: true })
+    ).toThrow('API rules are stored as plain expressions and cannot use parameter mode');
+  });
+});
@@ -0,0 +1,178 @@
+import { PocketbaseQueryError } from './errors';
+import { ValidPath } from './paths';
+import { Identifier } from './values';
+
+/**
+ * The modifiers PocketBase supports at the end of a field reference.
+ */
+export type ReferenceModifier = 'isset' | 'changed' | 'length' | 'each' | 'lower';
+
+const BODY_ONLY_MODIFIERS: ReferenceModifier[] = ['isset', 'changed'];
+
+/**
+ * A field reference used as an operand of an API rule, rendered unquoted,
+ * e.g. `@request.auth.id`, `@collection.users:u.id` or `tags:length`.
+ */
+export class Reference extends Identifier {
+  /**
+   * Whether the value comes from the submitted request body.
+   */
+  private readonly fromBody: boolean;
+
+  constructor(name: string) {
+    super(name);
+    this.fromBody = name.startsWith('@request.body.');
+  }
+
+  /**
+   * Checks whether the client submitted the body field, rendered as `:isset`.
+   *
+   * @returns {Reference} The modified reference.
+   * @throws {PocketbaseQueryError} When the reference is not a `@request.body` field.
+   */
+  isset() {
+    return this.modify('isset');
+  }
+
+  /**
+   * Checks whether the client submitted a different value than the stored one, rendered as `:changed`.
+   *
+   * @returns {Reference} The modified reference.
+   * @throws {PocketbaseQueryError} When the reference is not a `@request.body` field.
+   */
+  changed() {
+    return this.modify('changed');
+  }
+
+  /**
+   * Refers to the number of items of a multiple field, rendered as `:length`.
+   *
+   * @returns {Reference} The modified reference.
+   */
+  length() {
+    return this.modify('length');
+  }
+
+  /**
+   * Applies the condition to every item of a multiple field, rendered as `:each`.
+   *
+   * @returns {Reference} The modified reference.
+   */
+  each() {
+    return this.modify('each');
+  }
+
+  /**
+   * Refers to the lowercased value of the field, rendered as `:lower`.
+   *
+   * @returns {Reference} The modified reference.
+   */
+  lower() {
+    return this.modify('lower');
+  }
+
+  /**
+   * Appends a modifier, which must end the reference.
+   */
+  private modify(modifier: ReferenceModifier) {
+    if (/:\w+$/.test(this.name)) {
+      throw new PocketbaseQueryError(
+        `Cannot add :${modifier} to ${this.name}, it already has a modifier`
+      );
+    }
+    if (BODY_ONLY_MODIFIERS.includes(modifier) && !this.fromBody) {
+      throw new PocketbaseQueryError(
+        `:${modifier} can only be used with @request.body fields, not ${this.name}`
+      );
+    }
+    return new Reference(`${this.name}:${modifier}`);
+  }
+}
+
+/**
+ * Creates a reference to a field of the record the rule applies to, e.g. to add a modifier.
+ *
+ * @example
+ * query.greaterThan(ref("tags").length(), 2); // tags:length>2
+ *
+ * With an explicit record type, as in `ref<Post>("author.name")`, TypeScript cannot infer
+ * the path as well, so only its first segment is checked against the record.
+ *
+ * @param {string} path - The field name or relation path.
+ * @returns {Reference} The field reference.
+ */
+export function ref<T = any, P extends string = string>(path: ValidPath<T, P>): Reference {
+  return new Reference(path);
+}
+
+/**
+ * References to the current request, available in API rules.
+ *
+ * @example
+ * query.equal("owner", request.auth("id")); // owner=@request.auth.id
+ */
+export const request = {
+  /**
+   * A field of the authenticated record, e.g. `@request.auth.id`.
+   */
+  auth: <A = any, P extends string = string>(path: ValidPath<A, P>) => new Reference(`@request.auth.${path}`),
+  /**
+   * A field of the submitted body, e.g. `@request.body.title`.
+   */
+  body: <B = any, P extends string = string>(path: ValidPath<B, P>) => new Reference(`@request.body.${path}`),
+  /**
+   * A query parameter, e.g. `@request.query.page`.
+   */
+  query: (name: string) => new Reference(`@request.query.${name}`),
+  /**
+   * A request header, e.g. `@request.headers.x_token`. PocketBase exposes header
+   * names lowercased with `-` replaced by `_`, so `X-Token` becomes `x_token`.
+   */
+  headers: (name: string) =>
+    new Reference(`@request.headers.${name.toLowerCase().replace(/-/g, '_')}`),
+  /**
+   * The context of the request: `default`, `oauth2`, `otp`, `password`, `realtime` or `protectedFile`.
+   */
+  context: new Reference('@request.context'),
+  /**
+   * The HTTP method of the request.
+   */
+  method: new Reference('@request.method'),
+};
+
+/**
+ * Creates references to the records of another collection, optionally under an
+ * alias so the same collection can be joined more than once.
+ *
+ * @example
+ * const member = collection("memberships", "m");
+ * query.equal(member.field("user"), request.auth("id")).and().equal(member.field("group"), ref("group"));
+ * // @collection.memberships:m.user=@request.auth.id && @collection.memberships:m.group=group
+ *
+ * @param {string} name - The collection name.
+ * @param {string} alias - An optional alias, rendered as `:alias`.
+ * @returns {{ field: Function }} A factory for references to the fields of the collection.
+ */
+export function collection<C = any>(name: string, alias?: string) {
+  const prefix = alias ? `@collection.${name}:${alias}` : `@collection.${name}`;
+  return {
+    field: <P extends string>(path: ValidPath<C, P>) => new Reference(`${prefix}.${path}`),
+  };
+}
+
+/**
+ * Rejects string operands that look like references, since they would be
+ * compared as quoted strings and silently change the meaning of a rule.
+ *
+ * @param {unknown} value - The right-hand operand.
+ * @param {string} call - The builder call, used in the error message.
+ * @throws {PocketbaseQueryError} When the operand is a string starting with `@`.
+ */
+export function assertRuleOperand(value: unknown, call: string) {
+  if (typeof value === 'string' && value.startsWith('@')) {
+    throw new PocketbaseQueryError(
+      `${call} compares against the quoted string ${JSON.stringify(value)}; ` +
+        'use request.*, collection() or ref() to reference a field'
+    );
+  }
+}
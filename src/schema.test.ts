@@ -0,0 +1,201 @@
+import PocketbaseQuery, {
+  PocketbaseQueryError,
+  request,
+  SchemaCollection,
+  SchemaValidationError,
+  validateSchema,
+} from '.';
+
+const collections: SchemaCollection[] = [
+  {
+    id: '_pb_users_auth_',
+    name: 'users',
+    type: 'auth',
+    fields: [
+      { name: 'id', type: 'text' },
+      { name: 'name', type: 'text' },
+      { name: 'team', type: 'relation', maxSelect: 1, collectionId: 'pbc_teams' },
+    ],
+  },
+  {
+    id: 'pbc_posts',
+    name: 'posts',
+    type: 'base',
+    fields: [
+      { name: 'id', type: 'text' },
+      { name: 'title', type: 'text' },
+      { name: 'status', type: 'select', maxSelect: 1, values: ['draft', 'published'] },
+      { name: 'labels', type: 'select', maxSelect: 3, values: ['news', 'tech'] },
+      { name: 'author', type: 'relation', maxSelect: 1, collectionId: '_pb_users_auth_' },
+      { name: 'category', type: 'relation', maxSelect: 1, collectionId: 'pbc_missing' },
+    ],
+  },
+  {
+    id: 'pbc_comments',
+    name: 'comments',
+    type: 'base',
+    fields: [
+      { name: 'text', type: 'text' },
+      { name: 'post', type: 'relation', maxSelect: 1, collectionId: 'pbc_posts' },
+    ],
+  },
+];
+
+const schema = { collection: 'posts', collections };
+const query = () => PocketbaseQuery.create<any>({ schema });
+
+describe('Schema Validation', () => {
+  test('should accept conditions matching the schema', () => {
+    const filter = query()
+      .equal('status', 'published')
+      .and()
+      .anyEqual('labels', 'news')
+      .and()
+      .like('author.name', 'ada')
+      .and()
+      .anyLike('comments_via_post.text', 'great')
+      .and()
+      .equal('author', request.auth('id'));
+
+    expect(filter.getWarnings()).toEqual([]);
+    expect(filter.build()).toBe(
+      'status="published" && labels?="news" && author.name~"ada" && ' +
+        'comments_via_post.text?~"great" && author=@request.auth.id'
+    );
+  });
+
+  test('should report unknown fields', () => {
+    expect(query().equal('titel', 'x').getWarnings()).toEqual([
+      {
+        code: 'UNKNOWN_FIELD',
+        call: 'titel="x"',
+        message: 'references titel, which is not a field of posts',
+      },
+    ]);
+    expect(query().equal('author.email', 'x').getWarnings()[0].message).toBe(
+      'references email, which is not a field of users'
+    );
+  });
+
+  test('should report relation paths that do not resolve to a collection', () => {
+    const issues = query()
+      .equal('title.length', 1)
+      .and()
+      .equal('category.name', 'x')
+      .and()
+      .equal('likes_via_post.user', 'x')
+      .getWarnings();
+
+    expect(issues.map(({ code, message }) => ({ code, message }))).toEqual([
+      {
+        code: 'UNKNOWN_RELATION',
+        message: 'goes through title, which is not a relation field of posts',
+      },
+      {
+        code: 'UNKNOWN_RELATION',
+        message: 'goes through category, a relation to a collection missing from the schema',
+      },
+      {
+        code: 'UNKNOWN_RELATION',
+        message: 'goes through likes_via_post, but likes has no relation field post to posts',
+      },
+    ]);
+  });
+
+  test('should resolve back-relations as the last segment of a path', () => {
+    const filter = query()
+      .isNotEmpty('comments_via_post', { multiple: true })
+      .and()
+      .anyEqual('comments_via_post', 'c1')
+      .and()
+      .greaterThan('author.posts_via_author:length', 2);
+
+    expect(filter.getWarnings()).toEqual([]);
+    expect(query().equal('likes_via_post', 'x').getWarnings()[0]).toEqual({
+      code: 'UNKNOWN_RELATION',
+      call: 'likes_via_post="x"',
+      message: 'references likes_via_post, but likes has no relation field post to posts',
+    });
+  });
+
+    test('should report any-item operators on single-value fields', () => {
+    const issues = query()
+      .anyEqual('status', 'draft')
+      .and()
+      .anyEqual('author.team', 'x')
+      .getWarnings();
+
+    expect(issues).toEqual([
+      {
+        code: 'INVALID_OPERATOR',
+        call: 'status?="draft"',
+        message: 'uses the any-item operator ?= on status, which holds a single value',
+      },
+      {
+        code: 'INVALID_OPERATOR',
+        call: 'author.team?="x"',
+        message: 'uses the any-item operator ?= on author.team, which holds a single value',
+      },
+    ]);
+  });
+
+  test('should report select values outside of the allowed list', () => {
+    const issues = query().in('status', ['published', 'archived']).getWarnings();
+
+    expect(issues).toEqual([
+      {
+        code: 'INVALID_VALUE',
+        call: 'status="archived"',
+        message:
+          'compares status with "archived", which is not one of its values: draft, published',
+      },
+    ]);
+    expect(query().like('status', 'arch').getWarnings()).toEqual([]);
+  });
+
+  test('should validate parsed filters and custom filters', () => {
+    const parsed = PocketbaseQuery.parse<any>('labels?="sports" || missing=1', { schema });
+
+    expect(parsed.getWarnings().map((issue) => issue.code)).toEqual([
+      'INVALID_VALUE',
+      'UNKNOWN_FIELD',
+    ]);
+    expect(query().customFilter('nope={:v}', { v: 1 }).getWarnings()[0].code).toBe('UNKNOWN_FIELD');
+    expect(PocketbaseQuery.parse<any>('1=1 && "a"!=status', { schema }).getWarnings()).toEqual([]);
+  });
+
+  test('should throw the diagnostics in strict mode', () => {
+    const strict = PocketbaseQuery.create<any>({ schema, strict: true })
+      .equal('status', 'archived')
+      .and()
+      .equal('titel', 'x');
+
+    let error: SchemaValidationError | undefined;
+    try {
+      strict.build();
+    } catch (caught) {
+      error = caught as SchemaValidationError;
+    }
+    expect(error).toBeInstanceOf(SchemaValidationError);
+    expect(error?.code).toBe('INVALID_VALUE');
+    expect(error?.issues.map((issue) => issue.code)).toEqual(['INVALID_VALUE', 'UNKNOWN_FIELD']);
+  });
+
+  test('should report the diagnostics as warnings in lenient mode', () => {
+    const onWarning = jest.fn();
+
+    const filter = PocketbaseQuery.create<any>({ schema, onWarning }).equal('titel', 'x').build();
+
+    expect(filter).toBe('titel="x"');
+    expect(onWarning).toHaveBeenCalledWith(expect.objectContaining({ code: 'UNKNOWN_FIELD' }));
+  });
+
+  test('should reject schemas without the collection', () => {
+    expect(() => PocketbaseQuery.create({ schema: { collection: 'likes', collections } })).toThrow(
+      'Unknown collection: likes is not in the schema'
+    );
+    expect(() => validateSchema(null, { collection: 'posts', collections: {} as any })).toThrow(
+      PocketbaseQueryError
+    );
+  });
+});
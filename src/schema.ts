@@ -0,0 +1,380 @@
+import { ConditionNode, FilterNode, renderNode } from './ast';
+import { PocketbaseQueryError, QueryIssue, QueryIssueCode } from './errors';
+import { parseFilter, parseLiteral } from './parser';
+import { Identifier, serializeValue } from './values';
+
+/**
+ * A field of an exported collection. PocketBase 0.23+ exports the options on the
+ * field itself, earlier versions under `options`.
+ */
+export interface SchemaField {
+  name: string;
+  type: string;
+  maxSelect?: number | null;
+  values?: string[];
+  collectionId?: string;
+  options?: {
+    maxSelect?: number | null;
+    values?: string[];
+    collectionId?: string;
+  };
+}
+
+/**
+ * A collection of the `pb_schema.json` file exported from the PocketBase dashboard.
+ */
+export interface SchemaCollection {
+  id?: string;
+  name: string;
+  type?: 'base' | 'auth' | 'view';
+  /** The fields of PocketBase 0.23+, including the system ones. */
+  fields?: SchemaField[];
+  /** The fields of earlier versions, without the system ones. */
+  schema?: SchemaField[];
+}
+
+/**
+ * The schema a query is validated against: the collection it filters, and every
+ * collection of the `pb_schema.json` export so relation paths can be followed.
+ */
+export interface QuerySchema {
+  collection: string;
+  collections: SchemaCollection[];
+}
+
+/**
+ * A field path resolved against the schema.
+ */
+interface ResolvedField {
+  field: SchemaField;
+  /** Whether the path holds several values, through a multiple field or relation. */
+  multiple: boolean;
+}
+
+interface PathError {
+  code: QueryIssueCode;
+  message: string;
+}
+
+/**
+ * The fields earlier PocketBase versions do not export: the system fields of
+ * every collection, and the ones of auth collections.
+ */
+const LEGACY_FIELDS: Record<string, SchemaField[]> = {
+  base: [
+    { name: 'id', type: 'text' },
+    { name: 'created', type: 'date' },
+    { name: 'updated', type: 'date' },
+  ],
+  auth: [
+    { name: 'username', type: 'text' },
+    { name: 'email', type: 'email' },
+    { name: 'emailVisibility', type: 'bool' },
+    { name: 'verified', type: 'bool' },
+  ],
+};
+
+const MULTIPLE_TYPES = ['select', 'relation', 'file'];
+const MODIFIER_PATTERN = /^(.+):(isset|changed|length|each|lower)$/;
+const BACK_RELATION_PATTERN = /^(.+)_via_(.+)$/;
+
+/**
+ * Checks that the parsed contents of `pb_schema.json` are an array of collections.
+ *
+ * @param {unknown} schema - The parsed schema file.
+ * @returns {SchemaCollection[]} The collections.
+ * @throws {PocketbaseQueryError} When the schema is not an array of collections.
+ */
+export function parseSchema(schema: unknown): SchemaCollection[] {
+  const valid =
+    Array.isArray(schema) &&
+    schema.every(
+      (collection) =>
+        typeof collection?.name === 'string' &&
+        (Array.isArray(collection.fields) || Array.isArray(collection.schema))
+    );
+  if (!valid) {
+    throw new PocketbaseQueryError(
+      'Invalid schema: expected the array of collections exported from PocketBase'
+    );
+  }
+  return schema;
+}
+
+/**
+ * Indexes collections by name and id, the two ways relations refer to them.
+ *
+ * @param {SchemaCollection[]} collections - The collections of the schema.
+ * @returns {Map<string, SchemaCollection>} The collections by name and id.
+ */
+export function indexCollections(collections: SchemaCollection[]): Map<string, SchemaCollection> {
+  const index = new Map<string, SchemaCollection>();
+  collections.forEach((collection) => {
+    index.set(collection.name, collection);
+    if (collection.id) index.set(collection.id, collection);
+  });
+  return index;
+}
+
+/**
+ * Returns the collection a relation field points to, if it is part of the schema.
+ *
+ * @param {SchemaField} field - The relation field.
+ * @param {Map<string, SchemaCollection>} index - The collections by name and id.
+ * @returns {SchemaCollection | undefined} The target collection.
+ */
+export function relationTarget(
+  field: SchemaField,
+  index: Map<string, SchemaCollection>
+): SchemaCollection | undefined {
+  return index.get(field.collectionId ?? field.options?.collectionId ?? '');
+}
+
+/**
+ * Returns the fields of a collection, adding the system fields earlier versions leave out.
+ *
+ * @param {SchemaCollection} collection - The collection.
+ * @returns {SchemaField[]} Its fields.
+ */
+export function fieldsOf(collection: SchemaCollection): SchemaField[] {
+  if (collection.fields) return collection.fields;
+  const system = collection.type === 'view' ? [] : LEGACY_FIELDS.base;
+  const auth = collection.type === 'auth' ? LEGACY_FIELDS.auth : [];
+  return [...system, ...auth, ...(collection.schema ?? [])];
+}
+
+/**
+ * Checks whether a select, relation or file field holds multiple values.
+ * Earlier versions export an unlimited `maxSelect` as `null`.
+ *
+ * @param {SchemaField} field - The field.
+ * @returns {boolean} Whether the field holds multiple values.
+ */
+export function isMultiple(field: SchemaField): boolean {
+  if (field.options) {
+    const maxSelect = field.options.maxSelect;
+    return field.type !== 'select' && maxSelect === null ? true : (maxSelect ?? 1) > 1;
+  }
+  return (field.maxSelect ?? 1) > 1;
+}
+
+/**
+ * Finds the collection a query filters in its schema.
+ *
+ * @param {QuerySchema} schema - The schema of the query.
+ * @returns {SchemaCollection} The collection.
+ * @throws {PocketbaseQueryError} When the schema is invalid or lacks the collection.
+ */
+export function resolveCollection(schema: QuerySchema): SchemaCollection {
+  const collection = indexCollections(parseSchema(schema.collections)).get(schema.collection);
+  if (!collection) {
+    throw new PocketbaseQueryError(`Unknown collection: ${schema.collection} is not in the schema`);
+  }
+  return collection;
+}
+
+/**
+ * Checks whether a field path of the collection holds several values: a multiple
+ * field, or a path going through a multiple relation or a back-relation.
+ *
+ * @param {string} path - The field path, without modifier.
+ * @param {QuerySchema} schema - The collection the path belongs to, and the schema.
+ * @returns {boolean} Whether the path holds several values, `false` when it does not resolve.
+ * @throws {PocketbaseQueryError} When the schema is invalid or lacks the collection.
+ */
+export function holdsMultipleValues(path: string, schema: QuerySchema): boolean {
+  const resolved = resolvePath(
+    path,
+    resolveCollection(schema),
+    indexCollections(schema.collections)
+  );
+  return !('code' in resolved) && resolved.multiple;
+}
+
+/**
+ * Validates the conditions of a filter against a collection schema, and reports:
+ * - `UNKNOWN_FIELD`: a field the collection does not have;
+ * - `UNKNOWN_RELATION`: a relation path going through a field that is not a relation,
+ *   or to a collection missing from the schema;
+ * - `INVALID_OPERATOR`: an any-item `?` operator on a field holding a single value;
+ * - `INVALID_VALUE`: a select field compared with a value that is not one of its options.
+ *
+ * `@request`, `@collection` and macro operands are not checked.
+ *
+ * @param {FilterNode | null} node - The expression tree of the filter.
+ * @param {QuerySchema} schema - The collection the filter applies to, and the schema.
+ * @returns {QueryIssue[]} The issues found, with the offending condition as their `call`.
+ * @throws {PocketbaseQueryError} When the schema is invalid or lacks the collection.
+ */
+export function validateSchema(node: FilterNode | null, schema: QuerySchema): QueryIssue[] {
+  const collection = resolveCollection(schema);
+  const index = indexCollections(schema.collections);
+  return node
+    ? conditionsOf(node).flatMap((child) => validateCondition(child, collection, index))
+    : [];
+}
+
+/**
+ * Lists the conditions of a tree, parsing raw filter fragments when they are valid.
+ */
+function conditionsOf(node: FilterNode): ConditionNode[] {
+  switch (node.type) {
+    case 'condition':
+      return [node];
+    case 'raw': {
+      let parsed: FilterNode | null = null;
+      try {
+        parsed = parseFilter(renderNode(node, serializeValue));
+      } catch {
+        // invalid fragments are reported by PocketBase itself
+      }
+      return parsed ? conditionsOf(parsed) : [];
+    }
+    case 'group':
+      return conditionsOf(node.child);
+    case 'logical':
+      return node.children.flatMap(conditionsOf);
+  }
+}
+
+function validateCondition(
+  node: ConditionNode,
+  collection: SchemaCollection,
+  index: Map<string, SchemaCollection>
+): QueryIssue[] {
+  const call = renderNode(node, serializeValue);
+  const issues: QueryIssue[] = [];
+  const [, path, modifier] = MODIFIER_PATTERN.exec(node.field) ?? [node.field, node.field];
+
+  if (!path.startsWith('@') && !parseLiteral(node.field)) {
+    const resolved = resolvePath(path, collection, index);
+    if ('code' in resolved) issues.push({ ...resolved, call });
+    else {
+      const error = checkOperand(resolved, path, modifier, node);
+      if (error) issues.push({ ...error, call });
+    }
+  }
+
+  if (node.value instanceof Identifier && !node.value.name.startsWith('@')) {
+    const [, other] = MODIFIER_PATTERN.exec(node.value.name) ?? [node.value.name, node.value.name];
+    const resolved = resolvePath(other, collection, index);
+    if ('code' in resolved) issues.push({ ...resolved, call });
+  }
+  return issues;
+}
+
+/**
+ * Checks the operator and the value of a condition against the field on its left-hand side.
+ */
+function checkOperand(
+  { field, multiple }: ResolvedField,
+  path: string,
+  modifier: string | undefined,
+  { operator, value }: ConditionNode
+): PathError | undefined {
+  if (operator.startsWith('?') && (modifier === 'length' || !multiple)) {
+    return {
+      code: 'INVALID_OPERATOR',
+      message: `uses the any-item operator ${operator} on ${path}, which holds a single value`,
+    };
+  }
+
+  const values = field.values ?? field.options?.values ?? [];
+  const equality = ['=', '!=', '?=', '?!='].includes(operator);
+  if (
+    field.type === 'select' &&
+    values.length &&
+    (!modifier || modifier === 'each') &&
+    equality &&
+    typeof value === 'string' &&
+    value !== '' &&
+    !values.includes(value)
+  ) {
+    return {
+      code: 'INVALID_VALUE',
+      message: `compares ${path} with ${JSON.stringify(value)}, which is not one of its values: ${values.join(', ')}`,
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Follows a field path through relations and back-relations. A back-relation
+ * holds every record referencing the current one, so it is multiple, also as
+ * the last segment as in `comments_via_post:length`.
+ */
+function resolvePath(
+  path: string,
+  collection: SchemaCollection,
+  index: Map<string, SchemaCollection>
+): ResolvedField | PathError {
+  const segments = path.split('.');
+  let current = collection;
+  let multiple = false;
+
+  for (const [position, segment] of segments.entries()) {
+    const last = position === segments.length - 1;
+    const field = fieldsOf(current).find((candidate) => candidate.name === segment);
+    if (!field) {
+      const back = resolveBackRelation(segment, current, index, last);
+      if ('code' in back) return back;
+      if (last) return { field: back.field, multiple: true };
+      multiple = true;
+      current = back.collection;
+      continue;
+    }
+
+    if (last) {
+      const holdsMany = MULTIPLE_TYPES.includes(field.type) && isMultiple(field);
+      return { field, multiple: multiple || holdsMany };
+    }
+
+    const target = field.type === 'relation' ? relationTarget(field, index) : undefined;
+    if (!target) {
+      return {
+        code: 'UNKNOWN_RELATION',
+        message:
+          field.type === 'relation'
+            ? `goes through ${segment}, a relation to a collection missing from the schema`
+            : `goes through ${segment}, which is not a relation field of ${current.name}`,
+      };
+    }
+    multiple = multiple || isMultiple(field);
+    current = target;
+  }
+  throw new PocketbaseQueryError(`Invalid field path: ${JSON.stringify(path)}`);
+}
+
+/**
+ * Resolves a `<collection>_via_<field>` back-relation of a collection to the
+ * collection holding the relation field, and that field.
+ */
+function resolveBackRelation(
+  segment: string,
+  current: SchemaCollection,
+  index: Map<string, SchemaCollection>,
+  last: boolean
+): { collection: SchemaCollection; field: SchemaField } | PathError {
+  const [, source, name] = BACK_RELATION_PATTERN.exec(segment) ?? [];
+  const collection = source ? index.get(source) : undefined;
+  const field = collection
+    ? fieldsOf(collection).find(
+        (candidate) =>
+          candidate.name === name &&
+          candidate.type === 'relation' &&
+          relationTarget(candidate, index) === current
+      )
+    : undefined;
+  if (collection && field) return { collection, field };
+
+  if (!source) {
+    return {
+      code: 'UNKNOWN_FIELD',
+      message: `references ${segment}, which is not a field of ${current.name}`,
+    };
+  }
+  return {
+    code: 'UNKNOWN_RELATION',
+    message: `${last ? 'references' : 'goes through'} ${segment}, but ${source} has no relation field ${name} to ${current.name}`,
+  };
+}
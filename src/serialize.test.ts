@@ -0,0 +1,206 @@
+import PocketbaseQuery, {
+  DateMacro,
+  fragment,
+  identifier,
+  PocketbaseQueryError,
+  ref,
+  Reference,
+  request,
+  serializeQuery,
+} from '.';
+
+interface Post {
+  title: string;
+  status: string;
+  author: { name: string };
+  views: number;
+  likes: number;
+  published: boolean;
+  created: string;
+  tags: string[];
+}
+
+const roundTrip = <T>(query: PocketbaseQuery<T>) =>
+  PocketbaseQuery.fromJSON<T>(JSON.parse(JSON.stringify(query)));
+
+describe('JSON Serialization', () => {
+  test('should round-trip a query to an identical filter', () => {
+    const query = () =>
+      PocketbaseQuery.create<Post>()
+        .equal('status', 'published')
+        .and()
+        .group((q) => q.greaterThan('views', 100).or().equal('published', true))
+        .and()
+        .greaterThan('created', DateMacro.todayStart)
+        .or()
+        .lessThan('created', new Date('2024-05-01T10:00:00.000Z'))
+        .and()
+        .notEqual('title', null)
+        .and()
+        .greaterThan('likes', identifier('views'))
+        .and()
+        .customFilter('author.name ~ {:name}', { name: 'ann' });
+
+    expect(roundTrip(query()).build()).toBe(query().build());
+    expect(roundTrip(query()).toAST()).toEqual(query().toAST());
+  });
+
+  test('should tag values with their types', () => {
+    const json = PocketbaseQuery.create<Post>()
+      .greaterThan('created', DateMacro.todayStart)
+      .and()
+      .lessThan('created', new Date('2024-05-01T10:00:00.000Z'))
+      .and()
+      .equal('published', true)
+      .toJSON();
+
+    expect(json).toEqual({
+      version: 1,
+      filter: {
+        type: 'logical',
+        operator: '&&',
+        children: [
+          {
+            type: 'condition',
+            field: 'created',
+            operator: '>',
+            value: { type: 'macro', name: 'todayStart' },
+          },
+          {
+            type: 'condition',
+            field: 'created',
+            operator: '<',
+            value: { type: 'date', value: '2024-05-01T10:00:00.000Z' },
+          },
+          {
+            type: 'condition',
+            field: 'published',
+            operator: '=',
+            value: { type: 'boolean', value: true },
+          },
+        ],
+      },
+    });
+    expect(serializeQuery(null)).toEqual({ version: 1, filter: null });
+  });
+
+  test('should keep the references of API rules', () => {
+    const rule = PocketbaseQuery.rule<Post>()
+      .equal('author', request.auth('id'))
+      .and()
+      .greaterThan(ref('tags').length(), 2);
+    const read = PocketbaseQuery.fromJSON<Post>(JSON.stringify(rule), { rule: true });
+    const ast = read.toAST();
+
+    expect(read.build()).toBe('author=@request.auth.id && tags:length>2');
+    expect(ast?.type === 'logical' && ast.children[0]).toMatchObject({
+      value: expect.any(Reference),
+    });
+  });
+
+  test('should leave the builder and its scopes out', () => {
+    const notTrashed = fragment<any>('notTrashed', (query) => query.equal('deleted', false));
+    const posts = PocketbaseQuery.factory<any>({ scopes: [notTrashed] });
+    const query = posts.create().equal('status', 'a');
+    const json = query.toJSON();
+
+    expect(json.filter).toEqual({
+      type: 'condition',
+      field: 'status',
+      operator: '=',
+      value: { type: 'string', value: 'a' },
+    });
+    expect(query.build()).toBe('deleted=false && status="a"');
+    expect(posts.fromJSON(json).build()).toBe('deleted=false && status="a"');
+  });
+
+  test('should rename fields renamed since the query was saved', () => {
+    const json = PocketbaseQuery.create<any>()
+      .equal('author.name', 'ann')
+      .and()
+      .greaterThan('likes', identifier('views'))
+      .and()
+      .greaterThan('created', DateMacro.now)
+      .and()
+      .greaterThan('tags:length', 2)
+      .toJSON();
+    const renames = { author: 'writer', 'writer.name': 'unused', views: 'hits', tags: 'labels' };
+
+    expect(PocketbaseQuery.fromJSON(json, { renames }).build()).toBe(
+      'writer.name="ann" && likes>hits && created>@now && labels:length>2'
+    );
+  });
+
+  test('should rename the fields of custom filters', () => {
+    const json = PocketbaseQuery.create<any>()
+      .equal('status', 'a')
+      .and()
+      .customFilter('author.name ~ {:name} || likes > {:field}', {
+        name: 'ann',
+        field: identifier('views'),
+      })
+      .and()
+      .customFilter('title = "x"')
+      .and()
+      .customFilter('"views" = views')
+      .toJSON();
+
+    expect(
+      PocketbaseQuery.fromJSON(json, { renames: { author: 'writer', views: 'hits' } }).build()
+    ).toBe('status="a" && (writer.name~"ann" || likes>hits) && title = "x" && "views"=hits');
+  });
+
+  test('should report custom filters whose fields cannot be renamed', () => {
+    const json = {
+      version: 1,
+      filter: { type: 'raw', filter: 'author.name ~ ', params: {} },
+    };
+
+    expect(() => PocketbaseQuery.fromJSON(json, { renames: { author: 'writer' } })).toThrow(
+      'Invalid serialized query at filter: cannot rename the fields of the custom filter "author.name ~ "'
+    );
+    expect(PocketbaseQuery.fromJSON(json).toAST()).toEqual({ ...json.filter });
+  });
+
+  test('should reject queries of a newer version or with an invalid shape', () => {
+    expect(() => PocketbaseQuery.fromJSON({ version: 2, filter: null })).toThrow(
+      'Unsupported serialized query version 2; the latest supported version is 1'
+    );
+    expect(() => PocketbaseQuery.fromJSON('{"version":')).toThrow(PocketbaseQueryError);
+    expect(() =>
+      PocketbaseQuery.fromJSON({
+        version: 1,
+        filter: {
+          type: 'logical',
+          operator: '&&',
+          children: [
+            { type: 'condition', field: 'a', operator: '=', value: { type: 'number', value: 1 } },
+            { type: 'condition', field: 'b', operator: '==', value: { type: 'null' } },
+          ],
+        },
+      })
+    ).toThrow('Invalid serialized query at filter.children[1].operator: unknown operator "=="');
+    expect(() =>
+      PocketbaseQuery.fromJSON({
+        version: 1,
+        filter: {
+          type: 'condition',
+          field: 'a',
+          operator: '>',
+          value: { type: 'macro', name: 'x' },
+        },
+      })
+    ).toThrow(
+      'Invalid serialized query at filter.value: expected the name of a datetime macro for a macro value'
+    );
+  });
+
+  test('should reject values that JSON cannot represent', () => {
+    expect(() =>
+      serializeQuery({ type: 'condition', field: 'views', operator: '>', value: Infinity })
+    ).toThrow('Cannot serialize a non-finite number: Infinity');
+    expect(() => serializeQuery({ type: 'raw', filter: 'a={:a}', params: { a: [1] } })).toThrow(
+      'Cannot serialize a value of type object'
+    );
+  });
+});
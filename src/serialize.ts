@@ -0,0 +1,347 @@
+import { FilterNode, RawNode, renderNode } from './ast';
+import { DateMacro, DateMacroName } from './dates';
+import { PocketbaseQueryError } from './errors';
+import { LogicalOperator, OperatorEnum, OperatorType } from './operators';
+import { parseFilter, parseLiteral } from './parser';
+import { Reference } from './rules';
+import { FilterParams, FilterValue, Identifier, serializeValue } from './values';
+
+/**
+ * The version of the JSON format written by {@link serializeQuery}.
+ */
+export const QUERY_JSON_VERSION = 1;
+
+/**
+ * A value of a serialized query, tagged with its type so that dates, macros
+ * and references survive the round-trip through JSON.
+ */
+export type SerializedValue =
+  | { type: 'string'; value: string }
+  | { type: 'number'; value: number }
+  | { type: 'boolean'; value: boolean }
+  | { type: 'null' }
+  /** A date, as an ISO 8601 string. */
+  | { type: 'date'; value: string }
+  /** A datetime macro, by its name in {@link DateMacro}, e.g. `todayStart` for `@todayStart`. */
+  | { type: 'macro'; name: DateMacroName }
+  /** An operand rendered as-is, created with `identifier()`. */
+  | { type: 'identifier'; name: string }
+  /** A field reference of an API rule, created with `ref()`, `request` or `collection()`. */
+  | { type: 'reference'; name: string };
+
+/**
+ * An expression of a serialized query, mirroring the nodes of the expression tree.
+ */
+export type SerializedNode =
+  | { type: 'condition'; field: string; operator: OperatorType; value: SerializedValue }
+  | { type: 'raw'; filter: string; params: Record<string, SerializedValue> }
+  | { type: 'group'; child: SerializedNode }
+  | { type: 'logical'; operator: LogicalOperator; children: SerializedNode[] };
+
+/**
+ * A query serialized to JSON, e.g. to store a saved view.
+ */
+export interface SerializedQuery {
+  /** The version of the format, see {@link QUERY_JSON_VERSION}. */
+  version: number;
+  /** The expression tree, or `null` for an empty query. */
+  filter: SerializedNode | null;
+}
+
+/**
+ * Options applied when reading a serialized query.
+ */
+export interface DeserializeOptions {
+  /**
+   * Fields renamed since the query was saved, mapping the old name to the new one.
+   * A renamed relation also renames the paths going through it. Custom filter
+   * fragments are parsed to rename their fields as well.
+   */
+  renames?: Record<string, string>;
+}
+
+/**
+ * Renames a field path, see {@link DeserializeOptions.renames}.
+ */
+type Rename = (field: string) => string;
+
+const OPERATORS: string[] = Object.values(OperatorEnum);
+const LOGICAL_OPERATORS = ['&&', '||'];
+const MACROS = new Map(
+  Object.entries(DateMacro).map(([name, macro]) => [macro.name, name as DateMacroName])
+);
+
+/**
+ * Serializes an expression tree to a versioned, JSON-compatible object.
+ *
+ * @example
+ * serializeQuery(parseFilter('created>@todayStart'));
+ * // {
+ * //   version: 1,
+ * //   filter: {
+ * //     type: "condition",
+ * //     field: "created",
+ * //     operator: ">",
+ * //     value: { type: "macro", name: "todayStart" },
+ * //   },
+ * // }
+ *
+ * @param {FilterNode | null} node - The expression tree.
+ * @returns {SerializedQuery} The serialized query.
+ * @throws {PocketbaseQueryError} When a value cannot be represented in JSON.
+ */
+export function serializeQuery(node: FilterNode | null): SerializedQuery {
+  return { version: QUERY_JSON_VERSION, filter: node && writeNode(node) };
+}
+
+/**
+ * Reads a serialized query back into an expression tree, renaming the fields
+ * that were renamed since it was saved.
+ *
+ * @param {unknown} json - The serialized query, parsed or as a JSON string.
+ * @param {DeserializeOptions} options - The renamed fields.
+ * @returns {FilterNode | null} The expression tree, or `null` for an empty query.
+ * @throws {PocketbaseQueryError} When the JSON is not a serialized query, was written by a newer version,
+ * or holds a custom filter whose fields cannot be renamed.
+ */
+export function deserializeQuery(
+  json: unknown,
+  options: DeserializeOptions = {}
+): FilterNode | null {
+  let query = json;
+  if (typeof json === 'string') {
+    try {
+      query = JSON.parse(json);
+    } catch (error) {
+      throw new PocketbaseQueryError(`Invalid serialized query: ${(error as Error).message}`);
+    }
+  }
+  if (!isObject(query)) throw invalid('', 'expected an object');
+
+  const { version, filter } = query;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw invalid('version', `expected a positive integer, got ${JSON.stringify(version)}`);
+  }
+  if (version > QUERY_JSON_VERSION) {
+    throw new PocketbaseQueryError(
+      `Unsupported serialized query version ${version}; the latest supported version is ${QUERY_JSON_VERSION}`
+    );
+  }
+  const { renames = {} } = options;
+  const rename = Object.keys(renames).length ? renamer(renames) : undefined;
+  return filter === null ? null : readNode(filter, 'filter', rename);
+}
+
+function writeNode(node: FilterNode): SerializedNode {
+  switch (node.type) {
+    case 'condition':
+      return { ...node, value: writeValue(node.value) };
+    case 'raw':
+      return {
+        type: 'raw',
+        filter: node.filter,
+        params: Object.fromEntries(
+          Object.entries(node.params).map(([name, value]) => [name, writeValue(value)])
+        ),
+      };
+    case 'group':
+      return { type: 'group', child: writeNode(node.child) };
+    case 'logical':
+      return { type: 'logical', operator: node.operator, children: node.children.map(writeNode) };
+  }
+}
+
+function writeValue(value: unknown): SerializedValue {
+  if (value === null) return { type: 'null' };
+  if (typeof value === 'string') return { type: 'string', value };
+  if (typeof value === 'boolean') return { type: 'boolean', value };
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new PocketbaseQueryError(`Cannot serialize a non-finite number: ${value}`);
+    }
+    return { type: 'number', value };
+  }
+  if (value instanceof Date) return { type: 'date', value: value.toISOString() };
+  if (value instanceof Reference) return { type: 'reference', name: value.name };
+  if (value instanceof Identifier) {
+    const macro = MACROS.get(value.name);
+    return macro ? { type: 'macro', name: macro } : { type: 'identifier', name: value.name };
+  }
+  throw new PocketbaseQueryError(`Cannot serialize a value of type ${typeof value}`);
+}
+
+function readNode(json: unknown, path: string, rename?: Rename): FilterNode {
+  if (!isObject(json)) throw invalid(path, 'expected an object');
+
+  switch (json.type) {
+    case 'condition': {
+      const { field, operator, value } = json;
+      if (typeof field !== 'string' || !field) throw invalid(`${path}.field`, 'expected a field');
+      if (typeof operator !== 'string' || !OPERATORS.includes(operator)) {
+        throw invalid(`${path}.operator`, `unknown operator ${JSON.stringify(operator)}`);
+      }
+      return {
+        type: 'condition',
+        field: rename && !parseLiteral(field) ? rename(field) : field,
+        operator: operator as OperatorType,
+        value: readValue(value, `${path}.value`, rename),
+      };
+    }
+    case 'raw': {
+      const { filter, params } = json;
+      if (typeof filter !== 'string') throw invalid(`${path}.filter`, 'expected a string');
+      if (!isObject(params)) throw invalid(`${path}.params`, 'expected an object');
+      // the parameters are renamed along with the parsed fragment
+      const values: FilterParams = {};
+      for (const [name, value] of Object.entries(params)) {
+        values[name] = readValue(value, `${path}.params.${name}`);
+      }
+      const node: RawNode = { type: 'raw', filter, params: values };
+      return rename ? renameRaw(node, path, rename) : node;
+    }
+    case 'group':
+      return { type: 'group', child: readNode(json.child, `${path}.child`, rename) };
+    case 'logical': {
+      const { operator, children } = json;
+      if (typeof operator !== 'string' || !LOGICAL_OPERATORS.includes(operator)) {
+        throw invalid(`${path}.operator`, `unknown logical operator ${JSON.stringify(operator)}`);
+      }
+      if (!Array.isArray(children) || children.length < 2) {
+        throw invalid(`${path}.children`, 'expected at least two expressions');
+      }
+      return {
+        type: 'logical',
+        operator: operator as LogicalOperator,
+        children: children.map((child, index) =>
+          readNode(child, `${path}.children[${index}]`, rename)
+        ),
+      };
+    }
+    default:
+      throw invalid(`${path}.type`, `unknown expression type ${JSON.stringify(json.type)}`);
+  }
+}
+
+/**
+ * Reads a tagged value. Identifiers and references to fields of the record are renamed
+ * like the fields of conditions; `@` references and macros are kept.
+ */
+function readValue(json: unknown, path: string, rename?: Rename): FilterValue {
+  if (!isObject(json)) throw invalid(path, 'expected an object');
+
+  const { type, value, name } = json;
+  const expect = (valid: boolean, expected: string) => {
+    if (!valid) throw invalid(path, `expected ${expected} for a ${type} value`);
+  };
+  switch (type) {
+    case 'string':
+      expect(typeof value === 'string', 'a string');
+      return value as string;
+    case 'number':
+      expect(typeof value === 'number', 'a number');
+      return value as number;
+    case 'boolean':
+      expect(typeof value === 'boolean', 'a boolean');
+      return value as boolean;
+    case 'null':
+      return null;
+    case 'date': {
+      const date = new Date(value as string);
+      expect(typeof value === 'string' && !isNaN(date.getTime()), 'an ISO 8601 date');
+      return date;
+    }
+    case 'macro':
+      expect(
+        typeof name === 'string' && Object.prototype.hasOwnProperty.call(DateMacro, name),
+        'the name of a datetime macro'
+      );
+      return DateMacro[name as DateMacroName];
+    case 'identifier':
+    case 'reference': {
+      expect(typeof name === 'string', 'a name');
+      try {
+        const value =
+          type === 'reference' ? new Reference(name as string) : new Identifier(name as string);
+        return rename ? renameValue(value, rename) : value;
+      } catch (error) {
+        throw invalid(path, (error as Error).message);
+      }
+    }
+    default:
+      throw invalid(`${path}.type`, `unknown value type ${JSON.stringify(type)}`);
+  }
+}
+
+/**
+ * Renames the fields of a custom filter fragment by parsing it. The fragment is kept
+ * as it is when none of its fields was renamed.
+ */
+function renameRaw(node: RawNode, path: string, rename: Rename): FilterNode {
+  const filter = renderNode(node, serializeValue);
+  let parsed: FilterNode | null;
+  try {
+    parsed = parseFilter(filter);
+  } catch (error) {
+    throw invalid(
+      path,
+      `cannot rename the fields of the custom filter ${JSON.stringify(filter)}: ${(error as Error).message}`
+    );
+  }
+  if (!parsed) return node;
+
+  const renamed = renameNode(parsed, rename);
+  return renderNode(renamed, serializeValue) === renderNode(parsed, serializeValue)
+    ? node
+    : renamed;
+}
+
+function renameNode(node: FilterNode, rename: Rename): FilterNode {
+  switch (node.type) {
+    case 'condition': {
+      const field = parseLiteral(node.field) ? node.field : rename(node.field);
+      return { ...node, field, value: renameValue(node.value, rename) };
+    }
+    case 'raw':
+      return node;
+    case 'group':
+      return { type: 'group', child: renameNode(node.child, rename) };
+    case 'logical':
+      return { ...node, children: node.children.map((child) => renameNode(child, rename)) };
+  }
+}
+
+/**
+ * Renames an identifier or reference to a field of the record; other values are kept.
+ */
+function renameValue(value: FilterValue, rename: Rename): FilterValue {
+  if (!(value instanceof Identifier) || value.name.startsWith('@')) return value;
+  const name = rename(value.name);
+  if (name === value.name) return value;
+  return value instanceof Reference ? new Reference(name) : new Identifier(name);
+}
+
+/**
+ * Creates the function renaming a field path, trying the longest renamed paths first
+ * so that a renamed nested field wins over its renamed relation.
+ */
+function renamer(renames: Record<string, string>): Rename {
+  const entries = Object.entries(renames).sort(([a], [b]) => b.length - a.length);
+  return (field) => {
+    for (const [from, to] of entries) {
+      if (field === from || field.startsWith(`${from}.`) || field.startsWith(`${from}:`)) {
+        return to + field.slice(from.length);
+      }
+    }
+    return field;
+  };
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function invalid(path: string, message: string) {
+  return new PocketbaseQueryError(
+    `Invalid serialized query${path ? ` at ${path}` : ''}: ${message}`
+  );
+}
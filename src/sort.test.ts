@@ -0,0 +1,42 @@
+import { PocketbaseQueryError, SortBuilder } from '.';
+
+interface Post {
+  title: string;
+  created: string;
+  views: number;
+  author: string;
+}
+
+describe('SortBuilder', () => {
+  test('should build ascending, descending and random sorts in order', () => {
+    const sort = SortBuilder.create<Post>().desc('created').asc('title').random().build();
+    expect(sort).toBe('-created,+title,@random');
+  });
+
+  test('should sort on relation paths', () => {
+    const sort = SortBuilder.create<Post>().asc('author.name').desc('views').build();
+    expect(sort).toBe('+author.name,-views');
+  });
+
+  test('should accept an explicit direction', () => {
+    expect(SortBuilder.create<Post>().add('views', '-').build()).toBe('-views');
+  });
+
+  test('should return an empty string when nothing was added', () => {
+    expect(SortBuilder.create<Post>().build()).toBe('');
+  });
+
+  test('should reject duplicate fields', () => {
+    expect(() => SortBuilder.create<Post>().asc('title').desc('title')).toThrow(
+      'Duplicate sort field: title'
+    );
+    expect(() => SortBuilder.create<Post>().random().random()).toThrow(PocketbaseQueryError);
+  });
+
+  test('should reject invalid field paths', () => {
+    expect(() => SortBuilder.create<any>().asc('title,-id')).toThrow(
+      'Invalid sort field: "title,-id"'
+    );
+    expect(() => SortBuilder.create<any>().asc('author.')).toThrow(PocketbaseQueryError);
+  });
+});
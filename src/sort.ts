@@ -0,0 +1,104 @@
+import { PocketbaseQueryError } from './errors';
+
+/**
+ * A field of `T`, or a dotted path through one of its relation fields, e.g. `author.name`.
+ */
+export type SortField<T> = Extract<keyof T, string> | `${Extract<keyof T, string>}.${string}`;
+
+/**
+ * Sort direction: `+` for ascending, `-` for descending.
+ */
+export type SortDirection = '+' | '-';
+
+const SORT_FIELD_PATTERN = /^@?\w+(\.\w+)*$/;
+
+/**
+ * Builds the `sort` parameter of PocketBase list requests, e.g. `-created,+title,@random`.
+ *
+ * @example
+ * const sort = SortBuilder.create<Post>().desc("created").asc("author.name").build();
+ * // -created,+author.name
+ */
+export class SortBuilder<T> {
+  private readonly fields: string[] = [];
+  private readonly parts: string[] = [];
+
+  /**
+   * Creates a new sort builder.
+   *
+   * @returns {SortBuilder<T>} A new sort builder.
+   */
+  static create<T>(): SortBuilder<T> {
+    return new SortBuilder<T>();
+  }
+
+  /**
+   * Sorts by the field in ascending order, rendered as `+field`.
+   *
+   * @param {SortField<T>} field - The field or relation path to sort by.
+   * @returns {SortBuilder<T>} The current instance for chaining.
+   * @throws {PocketbaseQueryError} When the field is already sorted on or is not a valid field path.
+   */
+  asc(field: SortField<T>) {
+    return this.add(field, '+');
+  }
+
+  /**
+   * Sorts by the field in descending order, rendered as `-field`.
+   *
+   * @param {SortField<T>} field - The field or relation path to sort by.
+   * @returns {SortBuilder<T>} The current instance for chaining.
+   * @throws {PocketbaseQueryError} When the field is already sorted on or is not a valid field path.
+   */
+  desc(field: SortField<T>) {
+    return this.add(field, '-');
+  }
+
+  /**
+   * Sorts by the field in the given direction.
+   *
+   * @param {SortField<T>} field - The field or relation path to sort by.
+   * @param {SortDirection} direction - `+` for ascending, `-` for descending.
+   * @returns {SortBuilder<T>} The current instance for chaining.
+   * @throws {PocketbaseQueryError} When the field is already sorted on or is not a valid field path.
+   */
+  add(field: SortField<T>, direction: SortDirection) {
+    if (!SORT_FIELD_PATTERN.test(field)) {
+      throw new PocketbaseQueryError(`Invalid sort field: ${JSON.stringify(field)}`);
+    }
+    this.track(field);
+    this.parts.push(`${direction}${field}`);
+    return this;
+  }
+
+  /**
+   * Sorts the records randomly, rendered as `@random`.
+   *
+   * @returns {SortBuilder<T>} The current instance for chaining.
+   * @throws {PocketbaseQueryError} When random sorting was already added.
+   */
+  random() {
+    this.track('@random');
+    this.parts.push('@random');
+    return this;
+  }
+
+  /**
+   * Builds the comma-separated sort string, in the order the fields were added.
+   *
+   * @returns {string} The sort string, or an empty string when nothing was added.
+   */
+  build() {
+    return this.parts.join(',');
+  }
+
+  /**
+   * Records a sorted field, rejecting fields that were already added.
+   */
+  private track(field: string) {
+    if (this.fields.includes(field)) {
+      throw new PocketbaseQueryError(`Duplicate sort field: ${field}`);
+    }
+    this.fields.push(field);
+  }
+}
@@ -0,0 +1,153 @@
+import PocketbaseQuery, { DateMacro, PocketbaseQueryError, request, toSQLite } from '.';
+
+interface Post {
+  title: string;
+  status: string;
+  views: number;
+  published: boolean;
+  tags: string[];
+  created: string;
+  expand?: { author?: { name: string } };
+}
+
+describe('toSQLite', () => {
+  test('should compile comparisons to placeholders', () => {
+    const query = PocketbaseQuery.create<Post>()
+      .equal('status', 'published')
+      .and()
+      .greaterThan('views', 100)
+      .and()
+      .equal('published', true);
+
+    expect(query.toSQLite()).toEqual({
+      where: '"status" = ? AND "views" > ? AND "published" = ?',
+      bindings: ['published', 100, 1],
+    });
+  });
+
+  test('should treat null and empty strings alike in equality checks', () => {
+    expect(toSQLite('title=""').where).toBe(`("title" = '' OR "title" IS NULL)`);
+    expect(toSQLite('title!=null').where).toBe(`("title" != '' AND "title" IS NOT NULL)`);
+    expect(toSQLite('title!="a"')).toEqual({ where: '"title" IS NOT ?', bindings: ['a'] });
+  });
+
+  test('should compile like with auto-wrapped and escaped values', () => {
+    expect(toSQLite('title~"50_off"')).toEqual({
+      where: `"title" LIKE ? ESCAPE '\\'`,
+      bindings: ['%50\\_off%'],
+    });
+    expect(toSQLite('title!~"pocket%"')).toEqual({
+      where: `"title" NOT LIKE ? ESCAPE '\\'`,
+      bindings: ['pocket%'],
+    });
+  });
+
+  test('should compile any-item operators over JSON arrays with json_each', () => {
+    const { where, bindings } = PocketbaseQuery.create<Post>()
+      .anyIn('tags', ['news', 'tech'])
+      .toSQLite();
+
+    const array = `CASE WHEN json_type("tags") = 'array' AND json_array_length("tags") = 0 THEN '[null]' ELSE "tags" END`;
+    const items = `json_each(CASE WHEN json_valid("tags") THEN ${array} ELSE json_array("tags") END)`;
+    expect(where).toBe(
+      `EXISTS (SELECT 1 FROM ${items} WHERE value = ?) OR EXISTS (SELECT 1 FROM ${items} WHERE value = ?)`
+    );
+    expect(bindings).toEqual(['news', 'tech']);
+  });
+
+  test('should read an empty array as one empty item, like the left join of PocketBase', () => {
+    const items = `CASE WHEN json_valid("tags") THEN CASE WHEN json_type("tags") = 'array' AND json_array_length("tags") = 0 THEN '[null]' ELSE "tags" END ELSE json_array("tags") END`;
+
+    expect(toSQLite('tags?!="a"').where).toBe(
+      `EXISTS (SELECT 1 FROM json_each(${items}) WHERE value IS NOT ?)`
+    );
+    expect(toSQLite('tags?=""').where).toBe(
+      `EXISTS (SELECT 1 FROM json_each(${items}) WHERE (value = '' OR value IS NULL))`
+    );
+    expect(toSQLite('tags:each="a"').where).toBe(
+      `NOT EXISTS (SELECT 1 FROM json_each(${items}) WHERE NOT COALESCE(value = ?, 0))`
+    );
+  });
+
+  test('should compile the length and each modifiers', () => {
+    expect(toSQLite('tags:length>2').where).toMatch(
+      /^\(SELECT COUNT\(\*\) FROM json_each\(.+\) WHERE COALESCE\(value, ''\) != ''\) > \?$/
+    );
+    expect(toSQLite('tags:each~"a"').where).toMatch(
+      /^NOT EXISTS \(SELECT 1 FROM json_each\(.+\) WHERE NOT COALESCE\(value LIKE \? ESCAPE '\\', 0\)\)$/
+    );
+    expect(toSQLite('title:lower="a"').where).toBe('LOWER("title") = ?');
+  });
+
+  test('should compile datetime macros to strftime expressions', () => {
+    const query = PocketbaseQuery.create<Post>()
+      .greaterThanOrEqual('created', DateMacro.todayStart)
+      .and()
+      .lessThan('created', DateMacro.now);
+
+    expect(query.toSQLite()).toEqual({
+      where:
+        `"created" >= strftime('%Y-%m-%d 00:00:00.000Z', 'now') AND ` +
+        `"created" < strftime('%Y-%m-%d %H:%M:%fZ', 'now')`,
+      bindings: [],
+    });
+  });
+
+  test('should bind dates in the PocketBase datetime format', () => {
+    const from = new Date('2024-05-01T00:00:00Z');
+    const to = new Date('2024-06-01T00:00:00Z');
+    const query = PocketbaseQuery.create<Post>().between('created', from, to);
+
+    expect(query.toSQLite()).toEqual({
+      where: '"created" >= ? AND "created" <= ?',
+      bindings: ['2024-05-01 00:00:00.000Z', '2024-06-01 00:00:00.000Z'],
+    });
+  });
+
+  test('should keep the precedence of groups and mixed operators', () => {
+    const query = PocketbaseQuery.create<Post>()
+      .equal('status', 'draft')
+      .or()
+      .openBracket()
+      .equal('status', 'published')
+      .and()
+      .greaterThan('views', 10)
+      .closeBracket();
+
+    expect(query.toSQLite().where).toBe('"status" = ? OR ("status" = ? AND "views" > ?)');
+    expect(toSQLite('a=1 && (b=2 || c=3)').where).toBe('"a" = ? AND ("b" = ? OR "c" = ?)');
+  });
+
+  test('should compile parameterized filters and raw expressions', () => {
+    expect(toSQLite({ filter: 'status={:status}', params: { status: 'x' } })).toEqual({
+      where: '"status" = ?',
+      bindings: ['x'],
+    });
+    expect(PocketbaseQuery.create<Post>().customFilter('views>5').toSQLite()).toEqual({
+      where: '"views" > ?',
+      bindings: [5],
+    });
+    expect(toSQLite('')).toEqual({ where: '1', bindings: [] });
+  });
+
+  test('should bind literals on the left-hand side', () => {
+    expect(toSQLite('1=1')).toEqual({ where: '? = ?', bindings: [1, 1] });
+    expect(toSQLite('"draft"!=status')).toEqual({ where: '? IS NOT "status"', bindings: ['draft'] });
+  });
+
+  test('should map relation paths through the column option', () => {
+    const query = PocketbaseQuery.create<Post>().equal('author.name', 'Ada');
+
+    expect(() => query.toSQLite()).toThrow(PocketbaseQueryError);
+    expect(query.toSQLite({ column: (path) => path.replace('.', '_') })).toEqual({
+      where: 'author_name = ?',
+      bindings: ['Ada'],
+    });
+  });
+
+  test('should reject references that need the server', () => {
+    const query = PocketbaseQuery.create<Post>().equal('status', request.auth('status'));
+
+    expect(() => query.toSQLite()).toThrow('Cannot compile @request.auth.status to SQLite');
+  });
+});
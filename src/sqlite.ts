@@ -0,0 +1,232 @@
+import { FilterNode, renderNode } from './ast';
+import { PocketbaseQueryError } from './errors';
+import { EvaluableFilter, toFilterNode } from './evaluate';
+import { OperatorType } from './operators';
+import { parseFilter, parseLiteral } from './parser';
+import { formatDate, Identifier, likePattern, serializeValue } from './values';
+
+/**
+ * A value bound to a `?` placeholder of a compiled clause.
+ */
+export type SQLiteBinding = string | number | null;
+
+/**
+ * A parameterized SQLite `WHERE` clause, without the `WHERE` keyword.
+ */
+export interface SQLiteWhere {
+  where: string;
+  bindings: SQLiteBinding[];
+}
+
+export interface SQLiteOptions {
+  /**
+   * Maps a field path to a column expression. By default fields are quoted as
+   * column names and relation paths throw, since joins depend on the local schema.
+   */
+  column?: (path: string) => string;
+}
+
+type Comparison = '=' | '!=' | '>' | '>=' | '<' | '<=' | '~' | '!~';
+
+const MODIFIER_PATTERN = /^(.+):(isset|changed|length|each|lower)$/;
+const FORMAT = '%Y-%m-%d %H:%M:%fZ';
+
+/**
+ * The SQLite expressions of the datetime macros, evaluated in UTC when the query runs.
+ */
+const MACROS: Record<string, string> = {
+  '@now': `strftime('${FORMAT}', 'now')`,
+  '@second': "CAST(strftime('%S', 'now') AS INTEGER)",
+  '@minute': "CAST(strftime('%M', 'now') AS INTEGER)",
+  '@hour': "CAST(strftime('%H', 'now') AS INTEGER)",
+  '@weekday': "CAST(strftime('%w', 'now') AS INTEGER)",
+  '@day': "CAST(strftime('%d', 'now') AS INTEGER)",
+  '@month': "CAST(strftime('%m', 'now') AS INTEGER)",
+  '@year': "CAST(strftime('%Y', 'now') AS INTEGER)",
+  '@yesterday': `strftime('${FORMAT}', 'now', '-1 day')`,
+  '@tomorrow': `strftime('${FORMAT}', 'now', '+1 day')`,
+  '@todayStart': "strftime('%Y-%m-%d 00:00:00.000Z', 'now')",
+  '@todayEnd': "strftime('%Y-%m-%d 23:59:59.999Z', 'now')",
+  '@monthStart': "strftime('%Y-%m-01 00:00:00.000Z', 'now')",
+  '@monthEnd': "strftime('%Y-%m-%d 23:59:59.999Z', 'now', 'start of month', '+1 month', '-1 day')",
+  '@yearStart': "strftime('%Y-01-01 00:00:00.000Z', 'now')",
+  '@yearEnd': "strftime('%Y-12-31 23:59:59.999Z', 'now')",
+};
+
+/**
+ * Compiles a filter to a parameterized SQLite `WHERE` clause, so collections
+ * mirrored into a local database can be queried with the same filter as the server.
+ *
+ * PocketBase stores records in SQLite, and the clause follows its semantics:
+ * - `=` and `!=` treat `null` and `""` alike;
+ * - `~` and `!~` compile to `LIKE`, with the value wrapped in `%` wildcards
+ *   unless it already contains one;
+ * - `?` operators match any item of a multiple field stored as a JSON array, through `json_each`,
+ *   an empty array being a single empty item;
+ * - datetime macros compile to `strftime` expressions, evaluated when the query runs;
+ * - dates are bound in PocketBase's datetime format and booleans as `1`/`0`.
+ *
+ * @example
+ * toSQLite('status="active" && tags?="news"');
+ * // { where: '"status" = ? AND EXISTS (SELECT 1 FROM json_each(...) WHERE value = ?)',
+ * //   bindings: ["active", "news"] }
+ *
+ * @param {EvaluableFilter} filter - The filter to compile; an empty filter compiles to `1`.
+ * @param {SQLiteOptions} options - How field paths map to columns.
+ * @returns {SQLiteWhere} The clause and the values of its placeholders.
+ * @throws {FilterParseError} When the filter is not a valid expression.
+ * @throws {PocketbaseQueryError} When the filter references data that is not available locally.
+ */
+export function toSQLite(filter: EvaluableFilter, options: SQLiteOptions = {}): SQLiteWhere {
+  const node = toFilterNode(filter);
+  const bindings: SQLiteBinding[] = [];
+  const where = node ? compileNode(node, { ...options, bindings }) : '1';
+  return { where, bindings };
+}
+
+interface CompileState extends SQLiteOptions {
+  bindings: SQLiteBinding[];
+}
+
+function compileNode(node: FilterNode, state: CompileState): string {
+  switch (node.type) {
+    case 'condition':
+      return compileCondition(node.field, node.operator, node.value, state);
+    case 'raw': {
+      const parsed = parseFilter(renderNode(node, serializeValue));
+      return parsed ? compileNode(parsed, state) : '1';
+    }
+    case 'group':
+      return `(${compileNode(node.child, state)})`;
+    case 'logical':
+      return node.children
+        .map((child) => {
+          const sql = compileNode(child, state);
+          return child.type === 'logical' ? `(${sql})` : sql;
+        })
+        .join(node.operator === '&&' ? ' AND ' : ' OR ');
+  }
+}
+
+/**
+ * Compiles a condition. `?` operators and the `:each` modifier iterate over the
+ * items of the left-hand column with `json_each`; a literal on the left is bound like a value.
+ */
+function compileCondition(
+  field: string,
+  operator: OperatorType,
+  value: unknown,
+  state: CompileState
+): string {
+  const comparison = operator.replace('?', '') as Comparison;
+  const literal = parseLiteral(field);
+  if (literal) return compare(bind(literal.value, state), comparison, value, state);
+
+  const [, path, modifier] = MODIFIER_PATTERN.exec(field) ?? [field, field, undefined];
+  const column = compileOperand(path, state);
+
+  if (modifier === 'isset' || modifier === 'changed') {
+    throw new PocketbaseQueryError(`Cannot compile ${field} to SQLite, it needs the request`);
+  }
+  if (modifier === 'length') {
+    const length = `(SELECT COUNT(*) FROM json_each(${jsonArray(column)}) WHERE COALESCE(value, '') != '')`;
+    return compare(length, comparison, value, state);
+  }
+
+  const item = modifier === 'lower' ? 'LOWER(value)' : 'value';
+  if (modifier === 'each') {
+    const condition = compare(item, comparison, value, state);
+    return `NOT EXISTS (SELECT 1 FROM json_each(${jsonArray(column)}) WHERE NOT COALESCE(${condition}, 0))`;
+  }
+  if (operator.startsWith('?')) {
+    const condition = compare(item, comparison, value, state);
+    return `EXISTS (SELECT 1 FROM json_each(${jsonArray(column)}) WHERE ${condition})`;
+  }
+  return compare(modifier === 'lower' ? `LOWER(${column})` : column, comparison, value, state);
+}
+
+/**
+ * Compares a column expression with a value, binding the value to a placeholder.
+ */
+function compare(left: string, comparison: Comparison, value: unknown, state: CompileState) {
+  const isEmpty = value === null || value === undefined || value === '';
+
+  switch (comparison) {
+    case '=':
+      return isEmpty
+        ? `(${left} = '' OR ${left} IS NULL)`
+        : `${left} = ${compileValue(value, state)}`;
+    case '!=':
+      return isEmpty
+        ? `(${left} != '' AND ${left} IS NOT NULL)`
+        : `${left} IS NOT ${compileValue(value, state)}`;
+    case '~':
+    case '!~': {
+      const pattern =
+        value instanceof Identifier ? compileValue(value, state) : bind(likeValue(value), state);
+      return `${left} ${comparison === '~' ? 'LIKE' : 'NOT LIKE'} ${pattern} ESCAPE '\\'`;
+    }
+    default:
+      return `${left} ${comparison} ${compileValue(value, state)}`;
+  }
+}
+
+/**
+ * Compiles the right-hand side of a condition: identifiers to expressions, values to placeholders.
+ */
+function compileValue(value: unknown, state: CompileState): string {
+  return value instanceof Identifier ? compileOperand(value.name, state) : bind(value, state);
+}
+
+/**
+ * Compiles a field path, or a datetime macro, to an SQL expression.
+ */
+function compileOperand(name: string, state: CompileState): string {
+  if (MODIFIER_PATTERN.test(name)) {
+    throw new PocketbaseQueryError(
+      `Cannot compile ${name} to SQLite, modifiers are only supported on the left-hand side`
+    );
+  }
+  if (name in MACROS) return MACROS[name];
+  if (name.startsWith('@')) {
+    throw new PocketbaseQueryError(`Cannot compile ${name} to SQLite, it needs the server`);
+  }
+  if (state.column) return state.column(name);
+  if (name.includes('.')) {
+    throw new PocketbaseQueryError(
+      `Cannot compile the relation path ${name} to SQLite without a column option`
+    );
+  }
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Reads a column as a JSON array, wrapping values that are not JSON in a one-item array.
+ * An empty array or a `NULL` column reads as one `NULL` item, the way PocketBase's left
+ * join turns an empty multiple field into a single empty value.
+ */
+function jsonArray(column: string) {
+  const items = `CASE WHEN json_type(${column}) = 'array' AND json_array_length(${column}) = 0 THEN '[null]' ELSE ${column} END`;
+  return `CASE WHEN json_valid(${column}) THEN ${items} ELSE json_array(${column}) END`;
+}
+
+function likeValue(value: unknown) {
+  const text = value instanceof Date ? formatDate(value) : String(toBinding(value) ?? '');
+  return likePattern(text);
+}
+
+function bind(value: unknown, state: CompileState) {
+  state.bindings.push(toBinding(value));
+  return '?';
+}
+
+/**
+ * Converts a filter value to a value SQLite drivers can bind.
+ */
+function toBinding(value: unknown): SQLiteBinding {
+  if (value === null || value === undefined) return null;
+  if (value instanceof Date) return formatDate(value);
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'number' || typeof value === 'string') return value;
+  return JSON.stringify(value);
+}
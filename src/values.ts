@@ -0,0 +1,143 @@
+import { PocketbaseQueryError } from './errors';
+
+/**
+ * Named values bound to `{:name}` placeholders in a filter expression.
+ */
+export type FilterParams = Record<string, unknown>;
+
+const IDENTIFIER_PATTERN = /^[@\w][\w.:@]*$/;
+
+/**
+ * An operand rendered without quotes: another field, a `@request`/`@collection`
+ * reference or a datetime macro such as `@now`.
+ */
+export class Identifier {
+  readonly name: string;
+
+  constructor(name: string) {
+    if (!IDENTIFIER_PATTERN.test(name)) {
+      throw new PocketbaseQueryError(`Invalid identifier: ${JSON.stringify(name)}`);
+    }
+    this.name = name;
+  }
+
+  toString() {
+    return this.name;
+  }
+}
+
+/**
+ * Creates an {@link Identifier} operand, rendered as-is instead of as a quoted string.
+ *
+ * @example
+ * query.equal("owner", identifier("@request.auth.id")); // owner=@request.auth.id
+ *
+ * @param {string} name - The field name, reference or macro.
+ * @returns {Identifier} The identifier operand.
+ */
+export function identifier(name: string): Identifier {
+  return new Identifier(name);
+}
+
+/**
+ * A value that can be compared against a field in a filter expression.
+ */
+export type FilterValue = string | number | boolean | null | Date | Identifier;
+
+const PLACEHOLDER_PATTERN = /\{:(\w+)\}/g;
+
+/**
+ * Wraps a string in double quotes, escaping any embedded double quote.
+ *
+ * PocketBase only unescapes `\"` inside a quoted literal, so a backslash
+ * directly before the closing quote would escape it. Such values cannot be
+ * expressed safely and are rejected instead of producing a broken filter.
+ *
+ * @param {string} value - The raw string value.
+ * @returns {string} The quoted and escaped literal.
+ */
+export function quoteString(value: string): string {
+  if (value.endsWith('\\')) {
+    throw new PocketbaseQueryError(
+      `Cannot encode a string value ending with a backslash: ${JSON.stringify(value)}`
+    );
+  }
+  return `"${value.replace(/"/g, '\\"')}"`;
+}
+
+/**
+ * Formats a date the way PocketBase stores datetime fields: `YYYY-MM-DD HH:MM:SS.sssZ` in UTC.
+ *
+ * @param {Date} date - The date to format.
+ * @returns {string} The formatted UTC datetime.
+ */
+export function formatDate(date: Date): string {
+  if (Number.isNaN(date.getTime())) {
+    throw new PocketbaseQueryError('Cannot encode an invalid Date');
+  }
+  return date.toISOString().replace('T', ' ');
+}
+
+/**
+ * Turns the value of a `~`/`!~` condition into a LIKE pattern, the way PocketBase does:
+ * unless it contains an unescaped `%`, the value is escaped and wrapped in `%` wildcards.
+ *
+ * @example
+ * likePattern("50_off"); // %50\_off%
+ * likePattern("pocket%"); // pocket%
+ *
+ * @param {string} value - The value of the condition.
+ * @returns {string} The LIKE pattern, using `\` as the escape character.
+ */
+export function likePattern(value: string): string {
+  if (/(^|[^\\])%/.test(value)) return value;
+  return `%${value.replace(/[\\%_]/g, '\\$&')}%`;
+}
+
+/**
+ * Serializes a value into a PocketBase filter literal.
+ * - strings are quoted and escaped;
+ * - numbers and booleans are rendered without quotes;
+ * - `null` is rendered as the `null` literal;
+ * - dates are rendered as quoted UTC datetimes (see {@link formatDate});
+ * - identifiers are rendered as-is.
+ *
+ * @param {unknown} value - The value to serialize.
+ * @returns {string} The filter literal.
+ */
+export function serializeValue(value: unknown): string {
+  if (value === null) return 'null';
+  if (typeof value === 'string') return quoteString(value);
+  if (typeof value === 'boolean') return value.toString();
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new PocketbaseQueryError(`Cannot encode a non-finite number: ${value}`);
+    }
+    return value.toString();
+  }
+  if (value instanceof Date) return quoteString(formatDate(value));
+  if (value instanceof Identifier) return value.name;
+  throw new PocketbaseQueryError(`Cannot encode a value of type ${typeof value} in a filter`);
+}
+
+/**
+ * Replaces every `{:name}` placeholder in a filter fragment.
+ * Throws when a placeholder has no matching entry in `params`.
+ *
+ * @param {string} filter - The filter fragment containing `{:name}` placeholders.
+ * @param {FilterParams} params - The values bound to the placeholders.
+ * @param {(name: string, value: unknown) => string} replace - Produces the replacement text.
+ * @returns {string} The fragment with all placeholders replaced.
+ */
+export function replacePlaceholders(
+  filter: string,
+  params: FilterParams,
+  replace: (name: string, value: unknown) => string
+): string {
+  return filter.replace(PLACEHOLDER_PATTERN, (_match, name: string) => {
+    if (!Object.prototype.hasOwnProperty.call(params, name)) {
+      throw new PocketbaseQueryError(`Missing value for filter placeholder {:${name}}`);
+    }
+    return replace(name, params[name]);
+  });
+}